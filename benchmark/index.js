@@ -0,0 +1,93 @@
+/*
+  Benchmark
+
+  Compares drawing strokes with getStroke against drawing them into a buffer
+  with getStrokeInto. Each stroke is drawn once for every point added to it,
+  as it would be while the user is drawing. Run `yarn benchmark`, which builds
+  the library first.
+*/
+
+const { default: getStroke, getStrokeInto } = require('../dist')
+
+const STROKES = 20
+const POINTS = 300
+const RUNS = 5
+
+const options = { size: 16, thinning: 0.5, smoothing: 0.5, streamline: 0.5 }
+
+// Make some wobbly strokes, with pressures.
+const strokes = []
+
+for (let i = 0; i < STROKES; i++) {
+  const points = []
+
+  for (let j = 0; j < POINTS; j++) {
+    points.push([
+      j * 2 + Math.sin(j / 7 + i) * 10,
+      Math.cos(j / 11 + i) * 40 + i * 50,
+      0.3 + Math.sin(j / 5) * 0.2,
+    ])
+  }
+
+  strokes.push({
+    points,
+    input: new Float64Array([].concat(...points)),
+  })
+}
+
+const output = new Float64Array(POINTS * 8)
+
+function drawWithArrays() {
+  let total = 0
+
+  for (const { points } of strokes) {
+    for (let i = 1; i <= points.length; i++) {
+      total += getStroke(points.slice(0, i), options).length
+    }
+  }
+
+  return total
+}
+
+function drawIntoBuffer() {
+  let total = 0
+
+  for (const { input } of strokes) {
+    for (let i = 1; i <= POINTS; i++) {
+      total += getStrokeInto(input.subarray(0, i * 3), output, options)
+    }
+  }
+
+  return total
+}
+
+function measure(name, fn) {
+  // Warm up, and check that both ways draw the same number of points.
+  const total = fn()
+
+  let best = Infinity
+
+  for (let i = 0; i < RUNS; i++) {
+    const start = process.hrtime()
+    fn()
+    const [s, ns] = process.hrtime(start)
+    best = Math.min(best, s * 1e3 + ns / 1e6)
+  }
+
+  console.log(`${name.padEnd(16)} ${best.toFixed(1).padStart(8)}ms`)
+
+  return { total, best }
+}
+
+console.log(
+  `Drawing ${STROKES} strokes of ${POINTS} points, once for each point added\n`
+)
+
+const arrays = measure('getStroke', drawWithArrays)
+const buffer = measure('getStrokeInto', drawIntoBuffer)
+
+if (arrays.total !== buffer.total) {
+  throw Error('The strokes drawn by getStroke and getStrokeInto differ.')
+}
+
+console.log(`\n${(arrays.best / buffer.best).toFixed(2)}x faster`)
@@ -0,0 +1,253 @@
+import {
+  toPointsArray,
+  getStreamline,
+  getFirstStrokePoint,
+  getNextStrokePoint,
+  getEndAlignmentIndex,
+  getClosedStrokePoints,
+} from './utils'
+import {
+  OutlineOptions,
+  OutlineState,
+  getOutlineOptions,
+  createOutlineState,
+  copyOutlineState,
+  addOutlinePoint,
+  getOutlineFromState,
+  getOutline,
+} from './outline'
+import {
+  ResampleState,
+  resampleInputPoints,
+  createResampleState,
+  addResamplePoint,
+  getResampledPoints,
+} from './resample'
+import { normalizeStrokeOptions } from './options'
+import { NormalizedStrokeOptions, StrokeOptions, StrokePoint } from './types'
+
+/**
+ * ## StrokeBuilder
+ * @description Build a stroke one point at a time. The builder keeps the part of the outline that can no longer change as new points arrive, so that each call to `getOutline` only recomputes the end of the line. Its outline is the same as the one returned by `getStroke` for the same points. Resampled strokes keep the settled part of the spline in the same way, since a new point only moves the spline's last segments. Closed strokes are recomputed in full.
+ * @param options An (optional) object with options (see `getStroke`).
+ */
+export class StrokeBuilder {
+  private options: NormalizedStrokeOptions
+  private outlineOptions: OutlineOptions
+  private streamline: number
+  private size: number
+
+  // The stroke points, before aligning the vectors at the end of the line
+  private strokePoints: StrokePoint[] = []
+
+  // The input points, kept only for closed resampled strokes
+  private inputPoints: number[][] = []
+
+  // The resampling state of an open resampled stroke, and the number of its
+  // settled resampled points and stroke points, which new points can't move
+  private resampleState?: ResampleState
+  private settledPoints = 0
+  private settledLength = 0
+
+  // The last input point's pressure, for repairing invalid pressures
+  private prevPressure = 0.5
+
+  // The saved outline state, and the index of the next point to add to it
+  private state?: OutlineState
+  private next = 1
+
+  constructor(options: StrokeOptions = {} as StrokeOptions) {
+    this.options = normalizeStrokeOptions(options)
+    this.outlineOptions = getOutlineOptions(this.options)
+    this.streamline = getStreamline(this.options)
+    this.size = this.options.size
+
+    if (this.options.resample && !this.options.closed) {
+      this.resampleState = createResampleState(this.options)
+    }
+  }
+
+  /**
+   * Add a point to the stroke.
+   * @param point A point (as `[x, y, pressure, time, tiltX, tiltY]` or `{x, y, pressure, time, tiltX, tiltY}`). Pressure, time and tilt are optional.
+   */
+  addPoint<
+    T extends number[],
+    K extends { x: number; y: number; pressure?: number; time?: number }
+  >(point: T | K) {
+    const [pt] = toPointsArray([point], undefined, this.prevPressure)
+
+    if (!pt) return this
+
+    this.prevPressure = pt[2]
+
+    if (this.resampleState) {
+      this.addResampledPoint(pt)
+    } else if (this.options.resample) {
+      // Each new point changes the spline all the way around, so start over.
+      this.inputPoints.push(pt)
+      this.strokePoints = []
+
+      const pts = resampleInputPoints(this.inputPoints, this.options)
+
+      for (let i = 0; i < pts.length; i++) {
+        this.addStrokePoint(pts[i])
+      }
+    } else {
+      this.addStrokePoint(pt)
+    }
+
+    return this
+  }
+
+  /**
+   * Add an input point to an open resampled stroke, keeping the stroke points
+   * of the settled resampled points and replacing the rest.
+   * @param pt
+   */
+  private addResampledPoint(pt: number[]) {
+    const state = this.resampleState as ResampleState
+
+    addResamplePoint(state, pt)
+
+    const pts = getResampledPoints(state)
+
+    // The last of the state's points may still be dropped at the line's end.
+    const settled = Math.max(0, state.resampled.length - 1)
+
+    this.strokePoints.splice(this.settledLength)
+
+    for (; this.settledPoints < settled; this.settledPoints++) {
+      this.addStrokePoint(pts[this.settledPoints])
+    }
+
+    this.settledLength = this.strokePoints.length
+
+    for (let i = settled; i < pts.length; i++) {
+      this.addStrokePoint(pts[i])
+    }
+  }
+
+  /**
+   * Add a stroke point for an input point (as returned by `toPointsArray`).
+   * @param pt
+   */
+  private addStrokePoint(pt: number[]) {
+    if (this.strokePoints.length === 0) {
+      this.strokePoints.push(getFirstStrokePoint(pt))
+    } else {
+      const strokePoint = getNextStrokePoint(
+        this.strokePoints[this.strokePoints.length - 1],
+        pt,
+        this.streamline
+      )
+
+      if (strokePoint) this.strokePoints.push(strokePoint)
+    }
+  }
+
+  /**
+   * Add several points to the stroke.
+   * @param points An array of points (as `[x, y, pressure, time, tiltX, tiltY]` or `{x, y, pressure, time, tiltX, tiltY}`). Pressure, time and tilt are optional.
+   */
+  addPoints<
+    T extends number[],
+    K extends { x: number; y: number; pressure?: number; time?: number }
+  >(points: (T | K)[]) {
+    for (const point of points) {
+      this.addPoint(point)
+    }
+
+    return this
+  }
+
+  /**
+   * Mark the stroke as complete (see the `last` option).
+   */
+  complete() {
+    this.options = { ...this.options, last: true }
+    this.outlineOptions = getOutlineOptions(this.options)
+
+    return this
+  }
+
+  /**
+   * Get the stroke's points, as returned by `getStrokePoints`.
+   */
+  getStrokePoints(): StrokePoint[] {
+    const { strokePoints } = this
+
+    if (this.outlineOptions.closed) return getClosedStrokePoints(strokePoints)
+
+    const alignIndex = getEndAlignmentIndex(strokePoints, this.size)
+
+    if (alignIndex === -1) return strokePoints.slice()
+
+    const { vector } = strokePoints[alignIndex]
+
+    return strokePoints.map((strokePoint, i) =>
+      i < alignIndex ? strokePoint : { ...strokePoint, vector }
+    )
+  }
+
+  /**
+   * Get the stroke's outline, as returned by `getStroke`.
+   */
+  getOutline(): number[][] {
+    const { strokePoints, outlineOptions } = this
+
+    const points = this.getStrokePoints()
+
+    const len = points.length
+
+    if (len === 0) return []
+
+    // A closed stroke's outline changes all the way around as it grows.
+    if (outlineOptions.closed) return getOutline(points, outlineOptions)
+
+    /*
+      Save the stable part of the outline
+
+      A point's outline is stable once neither its own vector nor the next
+      point's vector can be changed by the end-of-line alignment, and once
+      the point is out of reach of the end taper. Add these points to the
+      saved state, then finish the rest of the outline on a copy.
+    */
+
+    const alignIndex = getEndAlignmentIndex(strokePoints, this.size)
+    const totalLength = points[len - 1].runningLength
+
+    // The number of points that new points can't move
+    const settled = this.resampleState ? this.settledLength : len
+
+    let limit = this.next
+
+    while (
+      limit < Math.min(alignIndex, settled) - 1 &&
+      totalLength - points[limit].runningLength >= outlineOptions.taperEnd
+    ) {
+      limit++
+    }
+
+    // Wait until the first five pressures are known before saving a state.
+    if (!this.state && limit > 1 && settled >= 5) {
+      this.state = createOutlineState(points, outlineOptions)
+    }
+
+    if (this.state) {
+      for (; this.next < limit; this.next++) {
+        addOutlinePoint(this.state, points, this.next, outlineOptions)
+      }
+    }
+
+    const state = this.state
+      ? copyOutlineState(this.state)
+      : createOutlineState(points, outlineOptions)
+
+    for (let i = this.state ? this.next : 1; i < len - 1; i++) {
+      addOutlinePoint(state, points, i, outlineOptions)
+    }
+
+    return getOutlineFromState(state, points, outlineOptions)
+  }
+}
@@ -0,0 +1,74 @@
+import { CanvasPathOptions } from './types'
+import { flattenStroke } from './polygon'
+import { getPathSegments, Segment } from './svg'
+
+/**
+ * Add a set of segments to a canvas path (a `Path2D` or a canvas context).
+ * @param path
+ * @param segments
+ * @param closed
+ */
+function tracePath(path: CanvasPath, segments: Segment[], closed: boolean) {
+  for (const { command, points } of segments) {
+    const [a, b, c] = points
+
+    switch (command) {
+      case 'M': {
+        path.moveTo(a[0], a[1])
+        break
+      }
+      case 'L': {
+        path.lineTo(a[0], a[1])
+        break
+      }
+      case 'Q': {
+        path.quadraticCurveTo(a[0], a[1], b[0], b[1])
+        break
+      }
+      case 'C': {
+        path.bezierCurveTo(a[0], a[1], b[0], b[1], c[0], c[1])
+        break
+      }
+    }
+  }
+
+  if (closed) path.closePath()
+}
+
+/**
+ * ## getStrokePath2D
+ * @description Turn the points returned by `getStroke` (or `getStrokeOutlinePoints`) into a `Path2D` for drawing on a canvas, with the same curves as `getSvgPathFromStroke`.
+ * @param stroke An array of outline points (as `[x, y]`).
+ * @param options An (optional) object with options.
+ * @param options.curve Whether to smooth the path with `quadratic` (default) or `cubic` curves.
+ * @param options.closed Whether to close the path. Defaults to true.
+ * @param options.flatten Whether to remove the places where the outline overlaps itself (see `flattenStroke`).
+ */
+export function getStrokePath2D(
+  stroke: number[][],
+  options: CanvasPathOptions = {} as CanvasPathOptions
+): Path2D {
+  const path = new Path2D()
+
+  if (options.flatten) {
+    for (const polygon of flattenStroke(stroke)) {
+      for (const ring of polygon) {
+        const { segments } = getPathSegments(
+          ring,
+          { ...options, closed: true },
+          true
+        )
+
+        tracePath(path, segments, true)
+      }
+    }
+
+    return path
+  }
+
+  const { segments, closed } = getPathSegments(stroke, options, true)
+
+  tracePath(path, segments, closed)
+
+  return path
+}
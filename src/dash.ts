@@ -0,0 +1,279 @@
+import {
+  OutlineOptions,
+  OutlineState,
+  createOutlineState,
+  addOutlinePoint,
+  getCenterline,
+  getCapPoints,
+  getArcStep,
+  getOutline,
+  isClosedLoop,
+} from './outline'
+import { getNib, getNibOffset, getNibPoints, Nib } from './nib'
+import { StrokeCap, StrokeCenterlinePoint, StrokePoint } from './types'
+import { lerp } from './utils'
+import * as vec from './vec'
+
+const { PI } = Math
+
+// The shortest that a dash pattern may be, relative to the stroke's size. A
+// shorter pattern is too fine to see.
+const MIN_DASH_PERIOD = 0.01
+
+// The most times that a dash pattern may repeat along a line, so that a line
+// that is very long for its size does not take too long to draw.
+const MAX_DASH_PERIODS = 1000000
+
+/**
+ * A position along a stroke's centerline, where a dash begins or ends.
+ */
+interface DashEnd {
+  point: number[]
+  vector: number[]
+  radius: number
+  nib?: Nib
+}
+
+/**
+ * Get the parts of a line (as start and end running lengths) that are covered
+ * by a dash pattern. As with SVG's `stroke-dasharray`, the pattern alternates
+ * between dashes and gaps, and a pattern with an odd number of lengths is
+ * repeated to make an even number. A pattern shorter than `MIN_DASH_PERIOD`
+ * times the stroke's size, or that would repeat more than `MAX_DASH_PERIODS`
+ * times along the line, is drawn as one dash.
+ * @param length The line's length.
+ * @param dash The pattern's lengths.
+ * @param offset How far into the pattern to begin the line.
+ * @param size The stroke's size.
+ * @returns
+ */
+export function getDashIntervals(
+  length: number,
+  dash: number[],
+  offset: number,
+  size: number
+): number[][] {
+  const pattern = dash.length % 2 ? dash.concat(dash) : dash
+
+  const period = pattern.reduce((sum, n) => sum + n, 0)
+
+  // A pattern without any gaps, that can't be repeated, or that is too fine to
+  // repeat along the line, is one dash.
+  if (
+    !(period > 0) ||
+    pattern.some(n => !(n >= 0)) ||
+    period < size * MIN_DASH_PERIOD ||
+    length / period > MAX_DASH_PERIODS
+  ) {
+    return [[0, length]]
+  }
+
+  const intervals: number[][] = []
+
+  let position = -(((offset % period) + period) % period)
+
+  for (let i = 0; position <= length; i = (i + 1) % pattern.length) {
+    const end = position + pattern[i]
+
+    if (i % 2 === 0 && end >= 0) {
+      intervals.push([Math.max(0, position), Math.min(length, end)])
+    }
+
+    position = end
+  }
+
+  return intervals
+}
+
+/**
+ * Get the point, direction and radius at a running length along a stroke's
+ * centerline.
+ * @param centerline The stroke's centerline (see `getCenterline`).
+ * @param runningLength The running length.
+ * @param options The outline options.
+ * @returns
+ */
+function getDashEnd(
+  centerline: StrokeCenterlinePoint[],
+  runningLength: number,
+  options: OutlineOptions
+): DashEnd {
+  let i = 1
+
+  while (
+    i < centerline.length - 1 &&
+    centerline[i].runningLength < runningLength
+  ) {
+    i++
+  }
+
+  const A = centerline[i - 1]
+  const B = centerline[i]
+
+  const t = B.distance ? (runningLength - A.runningLength) / B.distance : 0
+
+  return {
+    point: vec.lrp(A.point, B.point, t),
+    vector: B.vector,
+    radius: lerp(A.radius, B.radius, t),
+    nib: getNib(B, options.tilt, options.nib),
+  }
+}
+
+/**
+ * Get the offset from a dash's end to the right side of the dash.
+ * @param end
+ * @returns
+ */
+function getDashOffset({ vector, radius, nib }: DashEnd) {
+  const normal = vec.per(vector)
+  return nib ? getNibOffset(normal, radius, nib) : vec.mul(normal, radius)
+}
+
+/**
+ * Get the points of a cap at one end of a dash, from one side of the dash to
+ * the other: from right to left for the dash's start, or from left to right
+ * for its end.
+ * @param end The end of the dash.
+ * @param cap The cap's style.
+ * @param isStart Whether the end is the dash's start.
+ * @param options The outline options.
+ * @returns
+ */
+function getDashCap(
+  end: DashEnd,
+  cap: StrokeCap,
+  isStart: boolean,
+  options: OutlineOptions
+) {
+  const { point, vector, radius, nib } = end
+
+  const offset = vec.mul(getDashOffset(end), isStart ? 1 : -1)
+
+  if (cap !== 'round') {
+    return getCapPoints(
+      point,
+      offset,
+      isStart ? vector : vec.neg(vector),
+      radius,
+      cap
+    )
+  }
+
+  if (nib) {
+    const normal = vec.mul(vec.per(vector), isStart ? 1 : -1)
+    return getNibPoints(
+      point,
+      normal,
+      radius,
+      nib,
+      PI,
+      getArcStep(radius, PI, 0.2, options, nib)
+    )
+  }
+
+  const start = vec.add(point, offset)
+
+  const step = getArcStep(radius, PI, 0.2, options)
+
+  const pts: number[][] = []
+
+  for (let t = 0; t < 1 + step / 2; t += step) {
+    pts.push(vec.rotAround(start, point, PI * t))
+  }
+
+  return pts
+}
+
+/**
+ * Get the outline of one dash, using the points on either side of the whole
+ * stroke's outline that fall between the dash's start and end.
+ * @param state The whole stroke's outline state.
+ * @param start The start of the dash.
+ * @param end The end of the dash.
+ * @param s The running length at the start of the dash.
+ * @param e The running length at the end of the dash.
+ * @param options The outline options.
+ * @returns
+ */
+function getDashOutline(
+  state: OutlineState,
+  start: DashEnd,
+  end: DashEnd,
+  s: number,
+  e: number,
+  options: OutlineOptions
+) {
+  /*
+    A point on either side of the outline may trail behind the stroke point
+    that it was drawn for. Near the dash's ends, only keep points that are
+    between the ends.
+  */
+
+  const isInDash = (pt: number[], runningLength: number) =>
+    runningLength >= s &&
+    runningLength <= e &&
+    (runningLength - s > options.size ||
+      vec.dpr(vec.sub(pt, start.point), start.vector) < 0) &&
+    (e - runningLength > options.size ||
+      vec.dpr(vec.sub(pt, end.point), end.vector) > 0)
+
+  const leftPts = state.leftPts.filter((pt, i) =>
+    isInDash(pt, state.leftLengths[i])
+  )
+
+  const rightPts = state.rightPts.filter((pt, i) =>
+    isInDash(pt, state.rightLengths[i])
+  )
+
+  return leftPts.concat(
+    getDashCap(end, options.capEnd, false, options),
+    rightPts.reverse(),
+    getDashCap(start, options.capStart, true, options)
+  )
+}
+
+/**
+ * Get the outlines of a dashed stroke (see the `dash` option). The pressure
+ * and tapering are those of the whole stroke, and each dash has its own caps.
+ * @param points The stroke's points.
+ * @param options The outline options.
+ * @returns
+ */
+export function getDashedOutline(
+  points: StrokePoint[],
+  options: OutlineOptions
+): number[][][] {
+  const len = points.length
+
+  if (len === 0) return []
+
+  if (len < 2 || !options.dash.length) return [getOutline(points, options)]
+
+  const intervals = getDashIntervals(
+    points[len - 1].runningLength,
+    options.dash,
+    options.dashOffset,
+    options.size
+  )
+
+  // Find the whole stroke's left and right points.
+  const state = createOutlineState(points, options)
+
+  for (let i = isClosedLoop(points, options) ? 0 : 1; i < len - 1; i++) {
+    addOutlinePoint(state, points, i, options)
+  }
+
+  const centerline = getCenterline(points, options)
+
+  return intervals.map(([s, e]) =>
+    getDashOutline(
+      state,
+      getDashEnd(centerline, s, options),
+      getDashEnd(centerline, e, options),
+      s,
+      e,
+      options
+    )
+  )
+}
@@ -0,0 +1,141 @@
+import { EasingName, StrokeEasing } from './types'
+import { clamp } from './utils'
+
+const { PI, sin, cos, pow } = Math
+
+/**
+ * The easings that may be given by name in a stroke's options. The taper
+ * easings keep the formulas that the library has always used.
+ */
+export const easings: Record<EasingName, (t: number) => number> = {
+  linear: t => t,
+  easeInQuad: t => t * t,
+  easeOutQuad: t => t * (2 - t),
+  easeInOutQuad: t => (t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t),
+  easeInCubic: t => t * t * t,
+  easeOutCubic: t => --t * t * t + 1,
+  easeInOutCubic: t =>
+    t < 0.5 ? 4 * t * t * t : (t - 1) * (2 * t - 2) * (2 * t - 2) + 1,
+  easeInQuart: t => t * t * t * t,
+  easeOutQuart: t => 1 - --t * t * t * t,
+  easeInOutQuart: t => (t < 0.5 ? 8 * t * t * t * t : 1 - 8 * --t * t * t * t),
+  easeInQuint: t => t * t * t * t * t,
+  easeOutQuint: t => 1 + --t * t * t * t * t,
+  easeInOutQuint: t =>
+    t < 0.5 ? 16 * t * t * t * t * t : 1 + 16 * --t * t * t * t * t,
+  easeInSine: t => 1 - cos((t * PI) / 2),
+  easeOutSine: t => sin((t * PI) / 2),
+  easeInOutSine: t => -(cos(PI * t) - 1) / 2,
+  easeInExpo: t => (t <= 0 ? 0 : pow(2, 10 * t - 10)),
+  easeOutExpo: t => (t >= 1 ? 1 : 1 - pow(2, -10 * t)),
+  easeInOutExpo: t =>
+    t <= 0
+      ? 0
+      : t >= 1
+      ? 1
+      : t < 0.5
+      ? pow(2, 20 * t - 10) / 2
+      : (2 - pow(2, -20 * t + 10)) / 2,
+}
+
+/**
+ * Get a coordinate of a cubic bezier curve from (0, 0) to (1, 1).
+ * @param t The position along the curve, from 0 to 1.
+ * @param a The coordinate of the first control point.
+ * @param b The coordinate of the second control point.
+ * @returns
+ */
+function getBezierCoordinate(t: number, a: number, b: number) {
+  const s = 1 - t
+  return 3 * a * s * s * t + 3 * b * s * t * t + t * t * t
+}
+
+/**
+ * Get the slope of a coordinate of a cubic bezier curve from (0, 0) to (1, 1).
+ * @param t The position along the curve, from 0 to 1.
+ * @param a The coordinate of the first control point.
+ * @param b The coordinate of the second control point.
+ * @returns
+ */
+function getBezierSlope(t: number, a: number, b: number) {
+  const s = 1 - t
+  return 3 * a * s * s + 6 * (b - a) * s * t + 3 * (1 - b) * t * t
+}
+
+/**
+ * ## cubicBezierEasing
+ * @description Get an easing function for a cubic bezier curve from (0, 0) to (1, 1), like CSS's `cubic-bezier()`. The control points' x coordinates are clamped between 0 and 1.
+ * @param x1 The x coordinate of the first control point.
+ * @param y1 The y coordinate of the first control point.
+ * @param x2 The x coordinate of the second control point.
+ * @param y2 The y coordinate of the second control point.
+ */
+export function cubicBezierEasing(
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number
+): (t: number) => number {
+  // Each x must have one y, so the curve can't turn back on itself.
+  x1 = clamp(x1, 0, 1)
+  x2 = clamp(x2, 0, 1)
+
+  return (x: number) => {
+    if (x <= 0) return 0
+    if (x >= 1) return 1
+
+    // Find the position along the curve with Newton's method...
+    let t = x
+
+    for (let i = 0; i < 8; i++) {
+      const dx = getBezierCoordinate(t, x1, x2) - x
+
+      if (Math.abs(dx) < 1e-7) return getBezierCoordinate(t, y1, y2)
+
+      const slope = getBezierSlope(t, x1, x2)
+
+      if (Math.abs(slope) < 1e-6) break
+
+      t -= dx / slope
+    }
+
+    // ...or, where the curve is too flat for that, by bisection.
+    let lo = 0
+    let hi = 1
+
+    t = x
+
+    while (hi - lo > 1e-7) {
+      t = (lo + hi) / 2
+
+      if (getBezierCoordinate(t, x1, x2) < x) lo = t
+      else hi = t
+    }
+
+    return getBezierCoordinate(t, y1, y2)
+  }
+}
+
+/**
+ * Get an easing function from an easing option, which may be a function, the
+ * name of one of the `easings`, or the control points of a cubic bezier curve.
+ * @param easing The easing option.
+ * @param fallback The easing function to use if the option is not set.
+ * @returns
+ */
+export function getEasing(
+  easing: StrokeEasing | undefined,
+  fallback: (t: number) => number
+): (t: number) => number {
+  if (typeof easing === 'function') return easing
+
+  if (typeof easing === 'string') {
+    return easings.hasOwnProperty(easing) ? easings[easing] : fallback
+  }
+
+  if (Array.isArray(easing) && easing.length === 4) {
+    return cubicBezierEasing(easing[0], easing[1], easing[2], easing[3])
+  }
+
+  return fallback
+}
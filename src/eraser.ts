@@ -0,0 +1,212 @@
+import { getSegmentDistance2 } from './simplify'
+import { toPointsArray, toInputPoint, getInterpolatedPoint } from './utils'
+import * as vec from './vec'
+
+/**
+ * Get the part of a line from A to B (as positions from 0 to 1) that is
+ * inside of a circle, or undefined if the line misses the circle.
+ * @param A
+ * @param B
+ * @param C The circle's center.
+ * @param r The circle's radius.
+ * @returns
+ */
+function getCircleInterval(A: number[], B: number[], C: number[], r: number) {
+  const d = vec.sub(B, A)
+  const f = vec.sub(A, C)
+
+  const a = vec.len2(d)
+  const b = 2 * vec.dpr(f, d)
+  const c = vec.len2(f) - r * r
+
+  const disc = b * b - 4 * a * c
+
+  if (disc <= 0) return
+
+  const sq = Math.sqrt(disc)
+
+  return [(-b - sq) / (2 * a), (-b + sq) / (2 * a)]
+}
+
+/**
+ * Get the part of a line from A to B (as positions from 0 to 1) that is
+ * inside of the rectangle around a segment from E0 to E1, or undefined if the
+ * line misses the rectangle.
+ * @param A
+ * @param B
+ * @param E0 The segment's start.
+ * @param E1 The segment's end.
+ * @param r The rectangle's half-width.
+ * @returns
+ */
+function getRectangleInterval(
+  A: number[],
+  B: number[],
+  E0: number[],
+  E1: number[],
+  r: number
+) {
+  const u = vec.uni(vec.sub(E1, E0))
+  const n = vec.per(u)
+
+  const d = vec.sub(B, A)
+  const f = vec.sub(A, E0)
+
+  let t0 = -Infinity
+  let t1 = Infinity
+
+  // Clip the line to the slabs along and across the segment.
+  for (const [p, dp, lo, hi] of [
+    [vec.dpr(f, u), vec.dpr(d, u), 0, vec.dist(E0, E1)],
+    [vec.dpr(f, n), vec.dpr(d, n), -r, r],
+  ]) {
+    if (dp === 0) {
+      if (p < lo || p > hi) return
+      continue
+    }
+
+    const ta = (lo - p) / dp
+    const tb = (hi - p) / dp
+
+    t0 = Math.max(t0, Math.min(ta, tb))
+    t1 = Math.min(t1, Math.max(ta, tb))
+  }
+
+  if (t0 >= t1) return
+
+  return [t0, t1]
+}
+
+/**
+ * Get the parts of a line from A to B (as positions from 0 to 1) that are
+ * inside of an eraser's path, sorted and merged.
+ * @param A
+ * @param B
+ * @param eraser The eraser's path.
+ * @param r The eraser's radius.
+ * @returns
+ */
+function getErasedIntervals(
+  A: number[],
+  B: number[],
+  eraser: number[][],
+  r: number
+) {
+  const intervals: number[][] = []
+
+  for (let i = 0; i < eraser.length; i++) {
+    const E0 = eraser[i]
+    const E1 = eraser[i + 1]
+
+    // The eraser's path is a chain of circles joined by rectangles.
+    const hits = [getCircleInterval(A, B, E0, r)]
+
+    if (E1 && !vec.isEqual(E0, E1)) {
+      hits.push(getRectangleInterval(A, B, E0, E1, r))
+    }
+
+    for (const hit of hits) {
+      if (hit && hit[1] > 0 && hit[0] < 1) {
+        intervals.push([Math.max(0, hit[0]), Math.min(1, hit[1])])
+      }
+    }
+  }
+
+  intervals.sort((a, b) => a[0] - b[0])
+
+  const merged: number[][] = []
+
+  for (const interval of intervals) {
+    const last = merged[merged.length - 1]
+
+    if (last && interval[0] <= last[1]) {
+      last[1] = Math.max(last[1], interval[1])
+    } else {
+      merged.push(interval.slice())
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Get whether a point is inside of an eraser's path.
+ * @param point
+ * @param eraser The eraser's path.
+ * @param r The eraser's radius.
+ * @returns
+ */
+function isErased(point: number[], eraser: number[][], r: number) {
+  if (eraser.length === 1) return vec.dist2(point, eraser[0]) < r * r
+
+  for (let i = 1; i < eraser.length; i++) {
+    if (getSegmentDistance2(point, eraser[i - 1], eraser[i]) < r * r) {
+      return true
+    }
+  }
+
+  return false
+}
+
+/**
+ * ## splitStrokeByEraser
+ * @description Erase part of a stroke, returning the parts of the stroke that are left. Each part is an array of points (as `[x, y, pressure]`, with a time and tilt if the original points had them, as `[x, y, pressure, time, tiltX, tiltY]`) that may be passed to `getStroke`. Where the eraser cuts the stroke, the part's new end point lies on the edge of the eraser, with its pressure interpolated between the original points.
+ * @param points The stroke's input points (as `[x, y, pressure, time, tiltX, tiltY]` or `{x, y, pressure, time, tiltX, tiltY}`).
+ * @param eraserPath The points along the eraser's path (as `[x, y]` or `{x, y}`).
+ * @param eraserRadius The eraser's radius.
+ */
+export function splitStrokeByEraser<
+  T extends number[],
+  K extends { x: number; y: number; pressure?: number; time?: number }
+>(
+  points: (T | K)[],
+  eraserPath: (number[] | { x: number; y: number })[],
+  eraserRadius: number
+): number[][][] {
+  const pts = toPointsArray(points)
+  const eraser = toPointsArray(eraserPath)
+
+  if (pts.length === 0) return []
+
+  if (eraser.length === 0 || !(eraserRadius > 0)) {
+    return [pts.map(toInputPoint)]
+  }
+
+  const parts: number[][][] = []
+
+  let part: number[][] = []
+
+  // Keep a part if it has any length.
+  const endPart = () => {
+    if (part.some(pt => !vec.isEqual(pt, part[0]))) parts.push(part)
+    part = []
+  }
+
+  if (pts.length === 1) {
+    return isErased(pts[0], eraser, eraserRadius) ? [] : [pts.map(toInputPoint)]
+  }
+
+  if (!isErased(pts[0], eraser, eraserRadius)) part.push(pts[0])
+
+  for (let i = 1; i < pts.length; i++) {
+    const A = pts[i - 1]
+    const B = pts[i]
+
+    if (vec.isEqual(A, B)) continue
+
+    for (const [t0, t1] of getErasedIntervals(A, B, eraser, eraserRadius)) {
+      if (t0 > 0) part.push(getInterpolatedPoint(A, B, t0))
+
+      endPart()
+
+      if (t1 < 1) part.push(getInterpolatedPoint(A, B, t1))
+    }
+
+    if (!isErased(B, eraser, eraserRadius)) part.push(B)
+  }
+
+  endPart()
+
+  // Turn the points' angles back into a tilt, as in the input points.
+  return parts.map(part => part.map(toInputPoint))
+}
@@ -0,0 +1,609 @@
+import { getArcStep, getOutlineOptions, OutlineOptions } from './outline'
+import { normalizeStrokeOptions } from './options'
+import { StrokeBuffer, StrokeOptions } from './types'
+import { clamp, getStrokeRadius, getStreamline } from './utils'
+import * as vec from './vec'
+
+const { PI, min } = Math
+
+/*
+  The fast path
+
+  These functions follow the same steps as `getStrokePoints` and `getOutline`,
+  and produce the same points, but keep their working data in buffers that are
+  reused from one stroke to the next. A stroke's points are kept in parallel
+  arrays, and each side of its outline in an interleaved array (as x, y, x, y
+  and so on). Once the buffers are large enough, drawing a stroke allocates
+  nothing.
+*/
+
+// The stroke points' positions, pressures, vectors, distances, running
+// lengths, velocities and times (NaN for none)
+let X = new Float64Array(0)
+let Y = new Float64Array(0)
+let P = new Float64Array(0)
+let VX = new Float64Array(0)
+let VY = new Float64Array(0)
+let D = new Float64Array(0)
+let L = new Float64Array(0)
+let V = new Float64Array(0)
+let T = new Float64Array(0)
+
+interface Side {
+  pts: Float64Array
+  length: number
+}
+
+const left: Side = { pts: new Float64Array(256), length: 0 }
+const right: Side = { pts: new Float64Array(256), length: 0 }
+
+// Scratch vectors
+const A = new Float64Array(2)
+const B = new Float64Array(2)
+const C = new Float64Array(2)
+const N = new Float64Array(2)
+const O = new Float64Array(2)
+
+// A copy of the options for the last stroke, which are usually the same as
+// the next
+let cachedOptions: StrokeOptions | undefined
+let outlineOptions: OutlineOptions = getOutlineOptions()
+let streamlineInput = getStreamline(normalizeStrokeOptions())
+let isSupported = true
+
+// The output buffer and the number of points written (or to write) to it
+let output: StrokeBuffer = new Float64Array(0)
+let count = 0
+
+/**
+ * Get whether two options (or option values) are the same, comparing objects
+ * and arrays by their values and functions (such as easings) by reference.
+ * @param a
+ * @param b
+ * @returns
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (!(a && b && typeof a === 'object' && typeof b === 'object')) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+
+  const A = a as Record<string, unknown>
+  const B = b as Record<string, unknown>
+
+  for (const key in A) {
+    if (!isEqual(A[key], B[key])) return false
+  }
+
+  for (const key in B) {
+    if (!(key in A)) return false
+  }
+
+  return true
+}
+
+/**
+ * Copy options (or an option value), so that later changes to the original
+ * do not change the copy.
+ * @param value
+ * @returns
+ */
+function copy<T>(value: T): T {
+  if (!(value && typeof value === 'object')) return value
+  if (Array.isArray(value)) return (value.map(copy) as unknown) as T
+
+  const result = {} as T
+
+  for (const key in value) {
+    result[key] = copy(value[key])
+  }
+
+  return result
+}
+
+/**
+ * Prepare the options for a stroke, and find whether the fast path supports
+ * them. Options that change the outline's shape beyond round caps and joins
+ * are left to the regular path. The options are compared by value with the
+ * last stroke's options, since a caller may change the same object between
+ * strokes.
+ * @param options
+ * @returns
+ */
+function setOptions(options: StrokeOptions) {
+  if (isEqual(options, cachedOptions)) return isSupported
+
+  const normalized = normalizeStrokeOptions(options)
+
+  cachedOptions = copy(options)
+  outlineOptions = getOutlineOptions(normalized)
+  streamlineInput = getStreamline(normalized)
+
+  const { nib, join, capStart, capEnd, closed, simplify } = outlineOptions
+
+  isSupported =
+    !nib &&
+    !closed &&
+    !normalized.resample &&
+    !(simplify > 0) &&
+    join === 'round' &&
+    capStart === 'round' &&
+    capEnd === 'round'
+
+  return isSupported
+}
+
+/**
+ * Make sure that the stroke point buffers can hold a number of points.
+ * @param size
+ */
+function reservePoints(size: number) {
+  if (X.length >= size) return
+
+  const length = Math.max(size, X.length * 2)
+
+  X = new Float64Array(length)
+  Y = new Float64Array(length)
+  P = new Float64Array(length)
+  VX = new Float64Array(length)
+  VY = new Float64Array(length)
+  D = new Float64Array(length)
+  L = new Float64Array(length)
+  V = new Float64Array(length)
+  T = new Float64Array(length)
+}
+
+/**
+ * Add a point to one side of the outline.
+ * @param side
+ * @param pt
+ */
+function pushPoint(side: Side, pt: vec.VecLike) {
+  if (side.length * 2 + 2 > side.pts.length) {
+    const pts = new Float64Array(side.pts.length * 2)
+    pts.set(side.pts)
+    side.pts = pts
+  }
+
+  side.pts[side.length * 2] = pt[0]
+  side.pts[side.length * 2 + 1] = pt[1]
+  side.length++
+}
+
+/**
+ * Write a point to the output, if it has room.
+ * @param x
+ * @param y
+ */
+function writePoint(x: number, y: number) {
+  if (count * 2 + 1 < output.length) {
+    output[count * 2] = x
+    output[count * 2 + 1] = y
+  }
+
+  count++
+}
+
+/**
+ * Get the stroke points for interleaved input points, as `getStrokePoints`
+ * does, checking the input points as `toPointsArray` does.
+ * @param input
+ * @param stride
+ * @returns The number of stroke points.
+ */
+function setStrokePoints(input: StrokeBuffer, stride: number) {
+  const { size } = outlineOptions
+
+  const inputLength = Math.floor(input.length / stride)
+
+  reservePoints(inputLength)
+
+  let len = 0
+  let prevPressure = 0.5
+
+  for (let i = 0; i < inputLength; i++) {
+    const j = i * stride
+
+    const x = input[j]
+    const y = input[j + 1]
+
+    if (!isFinite(x) || !isFinite(y)) continue
+
+    let pressure = stride > 2 ? input[j + 2] : 0.5
+
+    if (!isFinite(pressure)) pressure = prevPressure
+    else if (pressure < 0 || pressure > 1) pressure = clamp(pressure, 0, 1)
+
+    prevPressure = pressure
+
+    const time = stride > 3 && isFinite(input[j + 3]) ? input[j + 3] : NaN
+
+    if (len === 0) {
+      X[0] = x
+      Y[0] = y
+      P[0] = pressure
+      VX[0] = 0
+      VY[0] = 0
+      D[0] = 0
+      L[0] = 0
+      V[0] = NaN
+      T[0] = time
+      len++
+      continue
+    }
+
+    // Streamline the point toward the previous point.
+    const k = len - 1
+
+    vec.setInto(A, X[k], Y[k])
+    vec.setInto(B, x, y)
+    vec.lrpInto(C, A, B, 1 - streamlineInput)
+
+    if (C[0] === A[0] && C[1] === A[1]) continue
+
+    const distance = Math.hypot(C[1] - A[1], C[0] - A[0])
+
+    vec.uniInto(N, vec.subInto(N, A, C))
+
+    X[len] = C[0]
+    Y[len] = C[1]
+    P[len] = pressure
+    VX[len] = N[0]
+    VY[len] = N[1]
+    D[len] = distance
+    L[len] = L[k] + distance
+    V[len] = NaN
+    T[len] = time
+
+    if (!isNaN(time) && !isNaN(T[k])) {
+      const elapsed = time - T[k]
+      V[len] = elapsed > 0 ? distance / elapsed : V[k] || 0
+    }
+
+    len++
+  }
+
+  // Align the vectors at the end of the line.
+  for (let i = len - 2; i > 1; i--) {
+    if (
+      L[len - 1] - L[i] > size / 2 ||
+      VX[i - 1] * VX[i] + VY[i - 1] * VY[i] < 0.8
+    ) {
+      for (let j = i + 1; j < len; j++) {
+        VX[j] = VX[i]
+        VY[j] = VY[i]
+      }
+
+      break
+    }
+  }
+
+  return len
+}
+
+/**
+ * Get the (real or simulated) pressure and the radius of a stroke point, as
+ * `getPointRadius` does.
+ * @param i The index of the point.
+ * @param len The number of stroke points.
+ * @param prevPressure The previous point's pressure.
+ * @returns The radius. The pressure is written to `C[0]`.
+ */
+function getPointRadius(i: number, len: number, prevPressure: number) {
+  const {
+    size,
+    thinning,
+    simulatePressure,
+    minSpeed,
+    maxSpeed,
+    easing,
+    taperStart,
+    taperStartEase,
+    taperEnd,
+    taperEndEase,
+  } = outlineOptions
+
+  const totalLength = L[len - 1]
+
+  const distance = D[i]
+  const runningLength = L[i]
+  const velocity = V[i]
+
+  let pressure = P[i]
+  let radius: number
+
+  if (thinning) {
+    if (simulatePressure) {
+      const rp = isNaN(velocity)
+        ? min(1, 1 - distance / size)
+        : maxSpeed > minSpeed
+        ? 1 - clamp((velocity - minSpeed) / (maxSpeed - minSpeed), 0, 1)
+        : velocity > minSpeed
+        ? 0
+        : 1
+      const sp = min(1, distance / size)
+      pressure = min(1, prevPressure + (rp - prevPressure) * (sp / 2))
+    }
+
+    radius = getStrokeRadius(size, thinning, easing, pressure)
+  } else {
+    radius = size / 2
+  }
+
+  const ts =
+    runningLength < taperStart ? taperStartEase(runningLength / taperStart) : 1
+
+  const te =
+    totalLength - runningLength < taperEnd
+      ? taperEndEase((totalLength - runningLength) / taperEnd)
+      : 1
+
+  C[0] = pressure
+
+  return radius * Math.min(ts, te)
+}
+
+/**
+ * Write the outline for the stroke points, as `getOutline` does.
+ * @param len The number of stroke points.
+ */
+function writeOutline(len: number) {
+  const {
+    size,
+    thinning,
+    smoothing,
+    streamline,
+    easing,
+    taperStart,
+    taperEnd,
+    joinSegments,
+    scale,
+    isComplete,
+  } = outlineOptions
+
+  left.length = 0
+  right.length = 0
+
+  if (len === 0) return
+
+  // Start with the average of the first five pressures.
+  let prevPressure = P[0]
+
+  for (let i = 0; i < min(5, len); i++) {
+    prevPressure = (prevPressure + P[i]) / 2
+  }
+
+  let radius = getStrokeRadius(size, thinning, easing, P[len - 1])
+
+  let pvx = VX[0]
+  let pvy = VY[0]
+
+  // The previous left and right points, and the last left and right points
+  let plx = X[0]
+  let ply = Y[0]
+  let prx = plx
+  let pry = ply
+  let tlx = plx
+  let tly = ply
+  let trx = plx
+  let try_ = ply
+
+  for (let i = 1; i < len - 1; i++) {
+    const r = getPointRadius(i, len, prevPressure)
+    const pressure = C[0]
+
+    radius = r
+
+    const point = vec.setInto(A, X[i], Y[i])
+
+    const dpr = VX[i] * VX[i + 1] + VY[i] * VY[i + 1]
+
+    if (dpr < 0) {
+      // Draw a round join around a sharp corner.
+      vec.mulInto(O, vec.setInto(N, pvy, -pvx), r)
+
+      const step = getArcStep(r, PI, 1 / joinSegments, outlineOptions)
+
+      for (let t = 0; t < 1 - step / 2; t += step) {
+        vec.rotAroundInto(B, vec.addInto(B, point, O), point, PI * -t)
+        vec.rotAroundInto(C, vec.subInto(C, point, O), point, PI * t)
+
+        pushPoint(right, B)
+        pushPoint(left, C)
+
+        trx = B[0]
+        try_ = B[1]
+        tlx = C[0]
+        tly = C[1]
+      }
+
+      plx = tlx
+      ply = tly
+      prx = trx
+      pry = try_
+
+      continue
+    }
+
+    // Add regular points.
+    vec.setInto(B, VX[i + 1], VY[i + 1])
+    vec.setInto(C, VX[i], VY[i])
+    vec.mulInto(O, vec.perInto(N, vec.lrpInto(N, B, C, dpr)), r)
+
+    vec.subInto(B, point, O)
+    vec.addInto(C, point, O)
+
+    tlx = B[0]
+    tly = B[1]
+    trx = C[0]
+    try_ = C[1]
+
+    const alwaysAdd = i === 1 || dpr < 0.25
+    const spacing = (L[i] > size ? size : size / 2) * smoothing
+    const minDistance = Math.pow(scale ? spacing / scale : spacing, 2)
+
+    if (
+      alwaysAdd ||
+      (plx - tlx) * (plx - tlx) + (ply - tly) * (ply - tly) > minDistance
+    ) {
+      vec.setInto(N, plx, ply)
+      pushPoint(left, vec.lrpInto(N, N, B, streamline))
+      plx = tlx
+      ply = tly
+    }
+
+    if (
+      alwaysAdd ||
+      (prx - trx) * (prx - trx) + (pry - try_) * (pry - try_) > minDistance
+    ) {
+      vec.setInto(N, prx, pry)
+      pushPoint(right, vec.lrpInto(N, N, C, streamline))
+      prx = trx
+      pry = try_
+    }
+
+    prevPressure = pressure
+    pvx = VX[i]
+    pvy = VY[i]
+  }
+
+  const first = vec.setInto(A, X[0], Y[0])
+
+  const isVeryShort = right.length < 2 || left.length < 2
+
+  // Draw a dot for very short or completed strokes.
+  if (isVeryShort && (!(taperStart || taperEnd) || isComplete)) {
+    let ir = 0
+
+    for (let i = 0; i < len; i++) {
+      if (L[i] > size) {
+        ir = getStrokeRadius(size, thinning, easing, P[i])
+        break
+      }
+    }
+
+    if (X[0] === X[len - 1] && Y[0] === Y[len - 1]) {
+      vec.setInto(N, -1, 0)
+    } else {
+      vec.uniInto(N, vec.setInto(N, X[0] - X[len - 1], Y[0] - Y[len - 1]))
+    }
+
+    vec.subInto(B, first, vec.mulInto(N, vec.perInto(N, N), ir || radius))
+
+    const step = getArcStep(ir || radius, PI * 2, 0.1, outlineOptions)
+
+    for (let t = 0; t < 1 + step / 2; t += step) {
+      vec.rotAroundInto(C, B, first, PI * 2 * t)
+      writePoint(C[0], C[1])
+    }
+
+    return
+  }
+
+  // Find the start cap's points on either side, as `getOutlineFromState`
+  // does, and skip the sides' first points if the stroke has a start cap.
+  let hasStartCap = false
+
+  if (!taperStart && !(taperEnd && isVeryShort)) {
+    trx = right.pts[2]
+    try_ = right.pts[3]
+
+    for (let i = 1; i < left.length; i++) {
+      if (trx !== left.pts[i * 2] || try_ !== left.pts[i * 2 + 1]) {
+        tlx = left.pts[i * 2]
+        tly = left.pts[i * 2 + 1]
+        break
+      }
+    }
+
+    hasStartCap = trx !== tlx || try_ !== tly
+  }
+
+  const skip = hasStartCap ? 1 : 0
+
+  for (let i = skip; i < left.length; i++) {
+    writePoint(left.pts[i * 2], left.pts[i * 2 + 1])
+  }
+
+  // Draw the end cap.
+  if (!taperEnd && !(taperStart && isVeryShort)) {
+    const last = vec.setInto(B, X[len - 1], Y[len - 1])
+
+    vec.mulInto(N, vec.setInto(N, VY[len - 1], -VX[len - 1]), radius)
+    vec.subInto(O, last, N)
+
+    const step = getArcStep(radius, PI * 3, 0.1, outlineOptions)
+
+    for (let t = 0; t < 1 + step / 2; t += step) {
+      vec.rotAroundInto(C, O, last, PI * 3 * t)
+      writePoint(C[0], C[1])
+    }
+  } else {
+    writePoint(X[len - 1], Y[len - 1])
+  }
+
+  for (let i = right.length - 1; i >= skip; i--) {
+    writePoint(right.pts[i * 2], right.pts[i * 2 + 1])
+  }
+
+  // Draw the start cap.
+  if (hasStartCap) {
+    vec.setInto(B, trx, try_)
+    vec.setInto(C, tlx, tly)
+
+    const d = Math.hypot(B[1] - C[1], B[0] - C[0])
+
+    vec.uniInto(N, vec.subInto(N, C, B))
+    vec.subInto(O, first, vec.mulInto(N, N, d / 2))
+
+    const step = getArcStep(d / 2, PI, 0.2, outlineOptions)
+
+    for (let t = 0; t < 1 + step / 2; t += step) {
+      vec.rotAroundInto(C, O, first, PI * t)
+      writePoint(C[0], C[1])
+    }
+  }
+}
+
+/**
+ * Write a stroke's outline for interleaved input points into a buffer, as
+ * `getStrokeInto` does. Returns -1 if the fast path does not support the
+ * stroke's options.
+ * @param input The input points.
+ * @param buffer The buffer to write the outline's points to.
+ * @param options The stroke options.
+ * @param stride The number of values for each input point.
+ * @returns The number of points in the outline.
+ */
+export function getFastStroke(
+  input: StrokeBuffer,
+  buffer: StrokeBuffer,
+  options: StrokeOptions,
+  stride: number
+) {
+  // Tilted nibs are left to the regular path, too.
+  if (!setOptions(options) || (stride > 4 && outlineOptions.tilt)) return -1
+
+  output = buffer
+  count = 0
+
+  writeOutline(setStrokePoints(input, stride))
+
+  return count
+}
+
+/**
+ * Get interleaved input points as an array of points, such as
+ * `[x, y, pressure, time, tiltX, tiltY]`, for the regular path.
+ * @param input The input points.
+ * @param stride The number of values for each input point.
+ * @returns
+ */
+export function toInputPoints(input: StrokeBuffer, stride: number) {
+  const points: number[][] = []
+
+  for (let i = 0; i + stride <= input.length; i += stride) {
+    points.push(Array.prototype.slice.call(input, i, i + min(stride, 6)))
+  }
+
+  return points
+}
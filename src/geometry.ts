@@ -0,0 +1,85 @@
+import { getCenterline, getOutlineOptions } from './outline'
+import { isPointInRing } from './polygon'
+import { StrokeBounds, StrokeOptions, StrokePoint } from './types'
+import { clamp, lerp } from './utils'
+import * as vec from './vec'
+
+/**
+ * ## getStrokeBounds
+ * @description Get the bounding box of a stroke's outline (as returned by `getStroke`), or of any other set of points.
+ * @param points The outline's points.
+ */
+export function getStrokeBounds(points: number[][]): StrokeBounds {
+  if (points.length === 0) {
+    return { minX: 0, minY: 0, maxX: 0, maxY: 0, width: 0, height: 0 }
+  }
+
+  let [minX, minY] = points[0]
+  let [maxX, maxY] = points[0]
+
+  for (let i = 1; i < points.length; i++) {
+    const [x, y] = points[i]
+
+    if (x < minX) minX = x
+    else if (x > maxX) maxX = x
+
+    if (y < minY) minY = y
+    else if (y > maxY) maxY = y
+  }
+
+  return { minX, minY, maxX, maxY, width: maxX - minX, height: maxY - minY }
+}
+
+/**
+ * ## isPointInStroke
+ * @description Get whether a point is inside of a stroke's outline (as returned by `getStroke`). Like an SVG path's default fill, this uses the non-zero winding rule, so a point where the outline overlaps itself is inside of the stroke.
+ * @param point The point (as `[x, y]`).
+ * @param outline The outline's points.
+ */
+export function isPointInStroke(point: number[], outline: number[][]) {
+  if (outline.length < 3) return false
+
+  return isPointInRing(point, outline)
+}
+
+/**
+ * ## getDistanceToStroke
+ * @description Get the distance from a point to the edge of a stroke, using the stroke's centerline and the radius at each of its points (see `getStrokeCenterline`) rather than its outline. The distance is negative for points inside of the stroke. Strokes with elliptical nibs are measured as though their nibs were round.
+ * @param point The point (as `[x, y]`).
+ * @param strokePoints The stroke's points (as returned by `getStrokePoints`).
+ * @param options An (optional) object with options (see `getStroke`).
+ */
+export function getDistanceToStroke(
+  point: number[],
+  strokePoints: StrokePoint[],
+  options: StrokeOptions = {} as StrokeOptions
+) {
+  const centerline = getCenterline(strokePoints, getOutlineOptions(options))
+
+  const len = centerline.length
+
+  if (len === 0) return Infinity
+
+  if (len === 1) {
+    return vec.dist(point, centerline[0].point) - centerline[0].radius
+  }
+
+  let min = Infinity
+
+  for (let i = 1; i < len; i++) {
+    const { point: A, radius: ra } = centerline[i - 1]
+    const { point: B, radius: rb } = centerline[i]
+
+    // Find the nearest point on the segment, and the radius at that point.
+    const l2 = vec.dist2(A, B)
+
+    const t =
+      l2 === 0 ? 0 : clamp(vec.dpr(vec.sub(point, A), vec.sub(B, A)) / l2, 0, 1)
+
+    const d = vec.dist(point, vec.lrp(A, B, t)) - lerp(ra, rb, t)
+
+    if (d < min) min = d
+  }
+
+  return min
+}
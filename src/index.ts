@@ -1,71 +1,84 @@
-import { toPointsArray, getStrokeRadius } from './utils'
-import { StrokeOptions, StrokePoint } from './types'
-import * as vec from './vec'
-
-const { min, PI } = Math
+import {
+  toPointsArray,
+  toInputPoint,
+  getStreamline,
+  getFirstStrokePoint,
+  getNextStrokePoint,
+  getEndAlignmentIndex,
+  getClosedStrokePoints,
+} from './utils'
+import { getOutlineOptions, getOutline, getCenterline } from './outline'
+import {
+  StrokeOptions,
+  StrokeCap,
+  StrokeJoin,
+  StrokePoint,
+  StrokeCenterlinePoint,
+  StrokeBounds,
+  StrokeStamp,
+  SvgPathOptions,
+  CanvasPathOptions,
+  RenderStyle,
+  EasingName,
+  StrokeEasing,
+  NormalizedStrokeOptions,
+  InputPoint,
+  InputPointsReport,
+  StrokeBuffer,
+  SerializableEasing,
+  SerializableStrokeOptions,
+  StrokeBatchItem,
+  StrokeBatch,
+  StrokeBatchResult,
+  StrokeMatrix,
+} from './types'
+import { resampleInputPoints } from './resample'
+import { getPolygonUnion } from './polygon'
+import { getDashedOutline } from './dash'
+import { getStrokePath2D } from './canvas'
+import { normalizeStrokeOptions, StrokeOptionsError } from './options'
+import { getFastStroke, toInputPoints } from './fast'
+import { getSvgPathFromStroke } from './svg'
 
 /**
  * ## getStrokePoints
  * @description Get points for a stroke.
- * @param points An array of points (as `[x, y, pressure]` or `{x, y, pressure}`). Pressure is optional.
+ * @param points An array of points (as `[x, y, pressure, time, tiltX, tiltY]` or `{x, y, pressure, time, tiltX, tiltY}`). Pressure, time and tilt are optional.
  * @param streamline How much to streamline the stroke.
  * @param size The stroke's size.
  */
 export function getStrokePoints<
   T extends number[],
-  K extends { x: number; y: number; pressure?: number }
+  K extends { x: number; y: number; pressure?: number; time?: number }
 >(points: (T | K)[], options = {} as StrokeOptions): StrokePoint[] {
-  let { simulatePressure = true, streamline = 0.5, size = 8 } = options
+  const normalized = normalizeStrokeOptions(options)
 
-  streamline /= 2
+  const { size, closed } = normalized
 
-  if (!simulatePressure) {
-    streamline /= 2
-  }
+  const streamline = getStreamline(normalized)
 
-  const pts = toPointsArray(points)
+  const pts = resampleInputPoints(toPointsArray(points), normalized)
 
   let len = pts.length
 
   if (len === 0) return []
 
-  if (len === 1) pts.push(vec.add(pts[0], [1, 0]))
-
-  const strokePoints: StrokePoint[] = [
-    {
-      point: [pts[0][0], pts[0][1]],
-      pressure: pts[0][2],
-      vector: [0, 0],
-      distance: 0,
-      runningLength: 0,
-    },
-  ]
-
-  for (
-    let i = 1, j = 0, curr = pts[i], prev = strokePoints[j];
-    i < len;
-    i++, curr = pts[i], prev = strokePoints[j]
-  ) {
-    const point = vec.lrp(prev.point, curr, 1 - streamline)
-
-    if (vec.isEqual(prev.point, point)) continue
-
-    const pressure = curr[2]
-    const vector = vec.uni(vec.vec(point, prev.point))
-    const distance = vec.dist(point, prev.point)
-    const runningLength = prev.runningLength + distance
-
-    strokePoints.push({
-      point,
-      pressure,
-      vector,
-      distance,
-      runningLength,
-    })
-
-    j += 1 // only increment j if we add an item to strokePoints
+  const strokePoints: StrokePoint[] = [getFirstStrokePoint(pts[0])]
+
+  for (let i = 1; i < len; i++) {
+    const strokePoint = getNextStrokePoint(
+      strokePoints[strokePoints.length - 1],
+      pts[i],
+      streamline
+    )
+
+    // only add the point if it isn't a duplicate of the previous point
+    if (strokePoint) strokePoints.push(strokePoint)
   }
 
+  // A closed line has no end, so connect its last point to its first point.
+  if (closed) return getClosedStrokePoints(strokePoints)
+
   /* 
     Align vectors at the end of the line
 
@@ -79,350 +92,371 @@ export function getStrokePoints<
   // Update the length to the length of the strokePoints array.
   len = strokePoints.length
 
-  const totalLength = strokePoints[len - 1].runningLength
+  const alignIndex = getEndAlignmentIndex(strokePoints, size)
 
-  for (let i = len - 2; i > 1; i--) {
-    const { runningLength, vector } = strokePoints[i]
-    const dpr = vec.dpr(strokePoints[i - 1].vector, strokePoints[i].vector)
-    if (totalLength - runningLength > size / 2 || dpr < 0.8) {
-      for (let j = i; j < len; j++) {
-        strokePoints[j].vector = vector
-      }
-      break
+  if (alignIndex > -1) {
+    const { vector } = strokePoints[alignIndex]
+    for (let j = alignIndex; j < len; j++) {
+      strokePoints[j].vector = vector
     }
   }
 
   return strokePoints
 }
 
+/**
+ * ## sanitizePoints
+ * @description Check a stroke's input points and fix them as `getStroke` does, reporting what was fixed. Points without a finite x and y are dropped. A pressure that is not a finite number (such as a `NaN` pressure on pen-up) is replaced with the previous point's pressure, and a pressure outside of 0 to 1 is clamped. An invalid time or tilt is removed. The fixed points are returned as arrays (as `[x, y, pressure, time, tiltX, tiltY]`, with time and tilt only if the point had them), so that they may be passed back to `getStroke`. The report lists the indices of the points that were dropped, repaired or clamped.
+ * @param points An array of points (as `[x, y, pressure, time, tiltX, tiltY]` or `{x, y, pressure, time, tiltX, tiltY}`). Pressure, time and tilt are optional.
+ */
+export function sanitizePoints<
+  T extends number[],
+  K extends { x: number; y: number; pressure?: number; time?: number }
+>(points: (T | K)[]): { points: number[][]; report: InputPointsReport } {
+  const report: InputPointsReport = { dropped: [], repaired: [], clamped: [] }
+
+  return { points: toPointsArray(points, report).map(toInputPoint), report }
+}
+
 /**
  * ## getStrokeOutlinePoints
  * @description Get an array of points (as `[x, y]`) representing the outline of a stroke.
- * @param points An array of points (as `[x, y, pressure]` or `{x, y, pressure}`). Pressure is optional.
+ * @param points An array of points (as `[x, y, pressure, time, tiltX, tiltY]` or `{x, y, pressure, time, tiltX, tiltY}`). Pressure, time and tilt are optional.
  * @param options An (optional) object with options.
  * @param options.size	The base size (diameter) of the stroke.
  * @param options.thinning The effect of pressure on the stroke's size.
  * @param options.smoothing	How much to soften the stroke's edges.
- * @param options.easing	An easing function to apply to each point's pressure.
+ * @param options.easing	An easing to apply to each point's pressure, as a function, the name of one of the `easings`, or the control points of a cubic bezier curve.
  * @param options.simulatePressure Whether to simulate pressure based on velocity.
- * @param options.start Tapering and easing function for the start of the line.
- * @param options.end Tapering and easing function for the end of the line.
+ * @param options.speed The minimum and maximum speeds for simulating pressure from points with times.
+ * @param options.tilt How much the pen's tilt stretches the nib into an ellipse, from 0 (not at all) to 1.
+ * @param options.nib A fixed nib for a broad-edged pen, as its angle (in radians) and its ratio of width to thickness.
+ * @param options.start Tapering, easing and cap style for the start of the line.
+ * @param options.end Tapering, easing and cap style for the end of the line.
+ * @param options.join The style of join for sharp corners (round, miter or bevel).
+ * @param options.miterLimit The longest miter join, relative to the line's radius.
+ * @param options.joinSegments The number of segments in a round join.
+ * @param options.scale The zoom at which the stroke is shown. When set, the outline's spacing and the points in its round caps and joins adapt to the zoom.
+ * @param options.tolerance How far (in screen pixels) the points of a round cap or join may stray from a true arc, when the `scale` option is set.
+ * @param options.simplify The greatest distance from a removed point to the simplified outline. Caps and corners are not simplified.
  * @param options.last Whether to handle the points as a completed stroke.
+ * @param options.closed Whether to join the end of the line to its start.
+ * @param options.strict Whether to throw a `StrokeOptionsError` for an invalid option, rather than fixing it (see `normalizeStrokeOptions`).
+ * @param options.resample Whether to fit a spline through the points and resample it at a spacing relative to the size.
  */
 export function getStrokeOutlinePoints(
   points: StrokePoint[],
   options: Partial<StrokeOptions> = {} as Partial<StrokeOptions>
 ): number[][] {
-  const {
-    size = 8,
-    thinning = 0.5,
-    smoothing = 0.5,
-    simulatePressure = true,
-    easing = t => t,
-    start = {},
-    end = {},
-    last: isComplete = false,
-  } = options
-
-  let { streamline = 0.5 } = options
-
-  streamline /= 2
-
-  const {
-    taper: taperStart = 0,
-    easing: taperStartEase = t => t * (2 - t),
-  } = start
-
-  const {
-    taper: taperEnd = 0,
-    easing: taperEndEase = t => --t * t * t + 1,
-  } = end
-
-  // The number of points in the array
-  const len = points.length
-
-  // We can't do anything with an empty array.
-  if (len === 0) return []
-
-  // The total length of the line
-  const totalLength = points[len - 1].runningLength
-
-  // Our collected left and right points
-  const leftPts: number[][] = []
-  const rightPts: number[][] = []
-
-  // Previous pressure (start with average of first five pressures)
-  let prevPressure = points
-    .slice(0, 5)
-    .reduce((acc, cur) => (acc + cur.pressure) / 2, points[0].pressure)
-
-  // The current radius
-  let radius = getStrokeRadius(size, thinning, easing, points[len - 1].pressure)
-
-  // Previous vector
-  let prevVector = points[0].vector
-
-  // Previous left and right points
-  let pl = points[0].point
-  let pr = pl
-
-  // Temporary left and right points
-  let tl = pl
-  let tr = pr
+  return getOutline(points, getOutlineOptions(options))
+}
 
-  /*
-    Find the outline's left and right points
+/**
+ * ## getStrokeCenterline
+ * @description Get the points along the center of a stroke, each with the radius that the stroke's outline will have at that point.
+ * @param points An array of points (as `[x, y, pressure, time, tiltX, tiltY]` or `{x, y, pressure, time, tiltX, tiltY}`). Pressure, time and tilt are optional.
+ * @param options An (optional) object with options (see `getStroke`).
+ */
+export function getStrokeCenterline<
+  T extends number[],
+  K extends { x: number; y: number; pressure?: number; time?: number }
+>(
+  points: (T | K)[],
+  options: StrokeOptions = {} as StrokeOptions
+): StrokeCenterlinePoint[] {
+  return getCenterline(
+    getStrokePoints(points, options),
+    getOutlineOptions(options)
+  )
+}
 
-   Iterating through the points and populate the rightPts and leftPts arrays,
-   skipping the first and last pointsm, which will get caps later on.
-  */
+/**
+ * ## getStroke
+ * @description Returns a stroke as an array of outline points.
+ * @param points An array of points (as `[x, y, pressure, time, tiltX, tiltY]` or `{x, y, pressure, time, tiltX, tiltY}`). Pressure, time and tilt are optional.
+ * @param options An (optional) object with options.
+ * @param options.size	The base size (diameter) of the stroke.
+ * @param options.thinning The effect of pressure on the stroke's size.
+ * @param options.smoothing	How much to soften the stroke's edges.
+ * @param options.easing	An easing to apply to each point's pressure, as a function, the name of one of the `easings`, or the control points of a cubic bezier curve.
+ * @param options.simulatePressure Whether to simulate pressure based on velocity.
+ * @param options.speed The minimum and maximum speeds for simulating pressure from points with times.
+ * @param options.tilt How much the pen's tilt stretches the nib into an ellipse, from 0 (not at all) to 1.
+ * @param options.nib A fixed nib for a broad-edged pen, as its angle (in radians) and its ratio of width to thickness.
+ * @param options.start Tapering, easing and cap style for the start of the line.
+ * @param options.end Tapering, easing and cap style for the end of the line.
+ * @param options.join The style of join for sharp corners (round, miter or bevel).
+ * @param options.miterLimit The longest miter join, relative to the line's radius.
+ * @param options.joinSegments The number of segments in a round join.
+ * @param options.scale The zoom at which the stroke is shown. When set, the outline's spacing and the points in its round caps and joins adapt to the zoom.
+ * @param options.tolerance How far (in screen pixels) the points of a round cap or join may stray from a true arc, when the `scale` option is set.
+ * @param options.simplify The greatest distance from a removed point to the simplified outline. Caps and corners are not simplified.
+ * @param options.last Whether to handle the points as a completed stroke.
+ * @param options.closed Whether to join the end of the line to its start.
+ * @param options.strict Whether to throw a `StrokeOptionsError` for an invalid option, rather than fixing it (see `normalizeStrokeOptions`).
+ * @param options.resample Whether to fit a spline through the points and resample it at a spacing relative to the size.
+ */
+export default function getStroke<
+  T extends number[],
+  K extends { x: number; y: number; pressure?: number; time?: number }
+>(points: (T | K)[], options: StrokeOptions = {} as StrokeOptions): number[][] {
+  return getStrokeOutlinePoints(getStrokePoints(points, options), options)
+}
 
-  for (let i = 1; i < len - 1; i++) {
-    let { point, pressure, vector, distance, runningLength } = points[i]
+/**
+ * ## getStrokeInto
+ * @description Write a stroke's outline into a buffer, for drawing many strokes (or many frames of a stroke) without creating arrays. The input points are interleaved in a typed array, such as `[x0, y0, pressure0, x1, y1, pressure1]`, and the outline's points are written to `output` in the same way, as `[x0, y0, x1, y1]`. The outline is the same as the one returned by `getStroke`. Returns the number of points in the outline: if this is more than the output has room for, only the points that fit are written, and the stroke may be drawn again into a larger buffer. Strokes with options that change the shape of the outline beyond round caps and joins (such as `nib`, `join`, `closed`, `resample` or `simplify`) are supported, but take the regular path.
+ * @param input The stroke's input points, interleaved in a `Float32Array` or `Float64Array`.
+ * @param output The buffer to write the outline's points to.
+ * @param options An (optional) object with options (see `getStroke`). Options with the same values as the last stroke's options are not prepared again, even if the object was changed in between.
+ * @param stride The number of values for each input point: 2 for `[x, y]`, 3 (default) to add a pressure, 4 to add a time, or 6 to add a tilt.
+ */
+export function getStrokeInto(
+  input: StrokeBuffer,
+  output: StrokeBuffer,
+  options: StrokeOptions = {} as StrokeOptions,
+  stride = 3
+): number {
+  // An invalid stride falls back to the default, as an invalid option does.
+  stride = stride >= 2 ? Math.floor(stride) : 3
 
-    /*
-      Calculate the radius
+  const count = getFastStroke(input, output, options, stride)
 
-      If not thinning, the current point's radius will be half the size; or
-      otherwise, the size will be based on the current (real or simulated)
-      pressure. 
-    */
+  if (count > -1) return count
 
-    if (thinning) {
-      if (simulatePressure) {
-        const rp = min(1, 1 - distance / size)
-        const sp = min(1, distance / size)
-        pressure = min(1, prevPressure + (rp - prevPressure) * (sp / 2))
-      }
+  const outline = getStroke(toInputPoints(input, stride), options)
 
-      radius = getStrokeRadius(size, thinning, easing, pressure)
-    } else {
-      radius = size / 2
-    }
+  for (let i = 0; i < outline.length && i * 2 + 1 < output.length; i++) {
+    output[i * 2] = outline[i][0]
+    output[i * 2 + 1] = outline[i][1]
+  }
 
-    /*
-      Apply tapering
+  return outline.length
+}
 
-      If the current length is within the taper distance at either the
-      start or the end, calculate the taper strengths. Apply the smaller 
-      of the two taper strengths to the radius.
-    */
+/**
+ * Get a larger copy of a buffer, if it has no room for a number of values.
+ * @param buffer
+ * @param size
+ * @returns
+ */
+function reserveBuffer(buffer: Float64Array, size: number) {
+  if (buffer.length >= size) return buffer
 
-    const ts =
-      runningLength < taperStart
-        ? taperStartEase(runningLength / taperStart)
-        : 1
+  const next = new Float64Array(Math.max(size, buffer.length * 2))
+  next.set(buffer)
 
-    const te =
-      totalLength - runningLength < taperEnd
-        ? taperEndEase((totalLength - runningLength) / taperEnd)
-        : 1
+  return next
+}
 
-    radius *= Math.min(ts, te)
+/**
+ * ## getStrokes
+ * @description Get the outlines of many strokes at once, as buffers that can be transferred between threads, such as from a Web Worker (see `perfect-freehand/dist/worker.esm.js`). The outlines' points are interleaved in one buffer (as `[x0, y0, x1, y1, ...]`), and the outline of the stroke at index `i` runs from point `offsets[i]` up to point `offsets[i + 1]`. Each outline is the same as the one returned by `getStroke`. Since a batch may be posted to a worker, its options must be serializable: easings are given by name or as the control points of a cubic bezier curve, not as functions.
+ * @param batch An object with the strokes, and (optionally) their shared options and SVG path options.
+ * @param batch.strokes An array of strokes, each with its points (as an array of points, or interleaved in a typed array as for `getStrokeInto`), the (optional) stride of its typed array and (optional) options that override the shared options.
+ * @param batch.options An (optional) object with options for every stroke (see `getStroke`).
+ * @param batch.path An (optional) object with SVG path options (see `getSvgPathFromStroke`). If set, the result also has the SVG path data of each outline.
+ */
+export function getStrokes(batch: StrokeBatch): StrokeBatchResult {
+  const { strokes, options = {}, path } = batch
 
-    /*
-      Handle sharp corners
+  const offsets = new Uint32Array(strokes.length + 1)
 
-      Find the difference (dot product) between the current and next vector.
-      If the next vector is at more than a right angle to the current vector,
-      draw a cap at the current point.
-    */
+  let points = new Float64Array(4096)
+  let count = 0
 
-    const nextVector = points[i + 1].vector
+  for (let i = 0; i < strokes.length; i++) {
+    const { points: input, stride = 3 } = strokes[i]
 
-    const dpr = vec.dpr(vector, nextVector)
+    // Strokes without their own options share the same options object.
+    const strokeOptions: StrokeOptions = strokes[i].options
+      ? { ...options, ...strokes[i].options }
+      : options
 
-    if (dpr < 0) {
-      const offset = vec.mul(vec.per(prevVector), radius)
+    if (Array.isArray(input)) {
+      const outline = getStroke(input, strokeOptions)
 
-      for (let t = 0; t < 1; t += 0.2) {
-        tr = vec.rotAround(vec.add(point, offset), point, PI * -t)
-        tl = vec.rotAround(vec.sub(point, offset), point, PI * t)
+      points = reserveBuffer(points, (count + outline.length) * 2)
 
-        rightPts.push(tr)
-        leftPts.push(tl)
+      for (const [x, y] of outline) {
+        points[count * 2] = x
+        points[count * 2 + 1] = y
+        count++
       }
+    } else {
+      let n = getStrokeInto(
+        input,
+        points.subarray(count * 2),
+        strokeOptions,
+        stride
+      )
 
-      pl = tl
-      pr = tr
+      // If the outline didn't fit, make room for it and draw it again.
+      if ((count + n) * 2 > points.length) {
+        points = reserveBuffer(points, (count + n) * 2)
+        n = getStrokeInto(
+          input,
+          points.subarray(count * 2),
+          strokeOptions,
+          stride
+        )
+      }
 
-      continue
+      count += n
     }
-    /* 
-      Add regular points
 
-      Project points to either side of the current point, using the
-      calculated size as a distance. If a point's distance to the 
-      previous point on that side greater than the minimum distance
-      (or if the corner is kinda sharp), add the points to the side's
-      points array.
-    */
+    offsets[i + 1] = count
+  }
 
-    const offset = vec.mul(vec.per(vec.lrp(nextVector, vector, dpr)), radius)
+  const result: StrokeBatchResult = {
+    points: points.slice(0, count * 2),
+    offsets,
+  }
 
-    tl = vec.sub(point, offset)
-    tr = vec.add(point, offset)
+  if (path) {
+    result.paths = []
 
-    const alwaysAdd = i === 1 || dpr < 0.25
-    const minDistance = Math.pow(
-      (runningLength > size ? size : size / 2) * smoothing,
-      2
-    )
+    for (let i = 0; i < strokes.length; i++) {
+      const outline: number[][] = []
 
-    if (alwaysAdd || vec.dist2(pl, tl) > minDistance) {
-      leftPts.push(vec.lrp(pl, tl, streamline))
-      pl = tl
-    }
+      for (let j = offsets[i]; j < offsets[i + 1]; j++) {
+        outline.push([points[j * 2], points[j * 2 + 1]])
+      }
 
-    if (alwaysAdd || vec.dist2(pr, tr) > minDistance) {
-      rightPts.push(vec.lrp(pr, tr, streamline))
-      pr = tr
+      result.paths.push(getSvgPathFromStroke(outline, path))
     }
-
-    // Set variables for next iteration
-
-    prevPressure = pressure
-    prevVector = vector
   }
 
-  /*
-    Drawing caps
-    
-    Now that we have our points on either side of the line, we need to
-    draw caps at the start and end. Tapered lines don't have caps, but
-    may have dots for very short lines.
-  */
-
-  const firstPoint = points[0]
-  const lastPoint = points[len - 1]
-  const isVeryShort = rightPts.length < 2 || leftPts.length < 2
-
-  /* 
-    Draw a dot for very short or completed strokes
-    
-    If the line is too short to gather left or right points and if the line is
-    not tapered on either side, draw a dot. If the line is tapered, then only
-    draw a dot if the line is both very short and complete. If we draw a dot,
-    we can just return those points.
-  */
-
-  if (isVeryShort && (!(taperStart || taperEnd) || isComplete)) {
-    let ir = 0
-
-    for (let i = 0; i < len; i++) {
-      const { pressure, runningLength } = points[i]
-      if (runningLength > size) {
-        ir = getStrokeRadius(size, thinning, easing, pressure)
-        break
-      }
-    }
+  return result
+}
 
-    const start = vec.sub(
-      firstPoint.point,
-      vec.mul(
-        vec.per(vec.uni(vec.vec(lastPoint.point, firstPoint.point))),
-        ir || radius
-      )
-    )
+/**
+ * ## getStrokesUnion
+ * @description Merge the outlines of several strokes into simple polygons that do not overlap themselves or each other. Each polygon is an array of rings: its outer ring, followed by any holes.
+ * @param strokes An array of strokes, each with an array of points and an (optional) object with options.
+ * @param options An (optional) object with options for every stroke (see `getStroke`). A stroke's own options override these options.
+ */
+export function getStrokesUnion<
+  T extends number[],
+  K extends { x: number; y: number; pressure?: number; time?: number }
+>(
+  strokes: { points: (T | K)[]; options?: StrokeOptions }[],
+  options: StrokeOptions = {} as StrokeOptions
+): number[][][][] {
+  const polygons: number[][][][] = []
+
+  for (const stroke of strokes) {
+    const outline = getStroke(stroke.points, { ...options, ...stroke.options })
+
+    // Each stroke is its own polygon, filled with the non-zero rule.
+    if (outline.length > 2) polygons.push([outline])
+  }
 
-    const dotPts: number[][] = []
+  return getPolygonUnion(polygons)
+}
 
-    for (let t = 0, step = 0.1; t <= 1; t += step) {
-      dotPts.push(vec.rotAround(start, firstPoint.point, PI * 2 * t))
-    }
+/**
+ * ## getDashedStroke
+ * @description Get the outlines of a dashed stroke, with one outline for each dash in the `dash` option. The stroke's pressure and tapering run along the whole stroke, while each dash has its own caps. Without a `dash` option, this returns the stroke's outline as its only dash.
+ * @param points An array of points (as `[x, y, pressure]` or `{x, y, pressure}`). Pressure is optional in both cases.
+ * @param options An (optional) object with options (see `getStroke`).
+ * @param options.dash The lengths of alternating dashes and gaps along the line.
+ * @param options.dashOffset How far into the dash pattern to begin the line.
+ */
+export function getDashedStroke<
+  T extends number[],
+  K extends { x: number; y: number; pressure?: number; time?: number }
+>(
+  points: (T | K)[],
+  options: StrokeOptions = {} as StrokeOptions
+): number[][][] {
+  return getDashedOutline(
+    getStrokePoints(points, options),
+    getOutlineOptions(options)
+  )
+}
 
-    return dotPts
-  }
+/**
+ * ## renderStroke
+ * @description Draw a stroke on a canvas, filling its outline (see `getStroke`) with the same curves as `getSvgPathFromStroke`. This works with the context of an `HTMLCanvasElement` or an `OffscreenCanvas`.
+ * @param ctx The canvas's 2D rendering context.
+ * @param points An array of points (as `[x, y, pressure]` or `{x, y, pressure}`). Pressure is optional in both cases.
+ * @param options An (optional) object with options (see `getStroke`).
+ * @param style An (optional) object with the style to draw the stroke with.
+ * @param style.fill The fill style. Defaults to the context's current fill style.
+ * @param style.fillRule Whether to fill the outline with the `nonzero` (default) or `evenodd` rule.
+ * @param style.curve Whether to smooth the outline with `quadratic` (default) or `cubic` curves.
+ * @param style.flatten Whether to remove the places where the outline overlaps itself (see `flattenStroke`).
+ */
+export function renderStroke<
+  T extends number[],
+  K extends { x: number; y: number; pressure?: number; time?: number }
+>(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  points: (T | K)[],
+  options: StrokeOptions = {} as StrokeOptions,
+  style: RenderStyle = {} as RenderStyle
+): void {
+  const { fill, fillRule = 'nonzero' } = style
 
-  /*
-    Draw a start cap
+  const path = getStrokePath2D(getStroke(points, options), style)
 
-    Unless the line has a tapered start, or unless the line has a tapered end
-    and the line is very short, draw a start cap around the first point. Use
-    the distance between the second left and right point for the cap's radius.
-    Finally remove the first left and right points. :psyduck:
-  */
+  ctx.save()
 
-  const startCap: number[][] = []
+  if (fill !== undefined) ctx.fillStyle = fill
 
-  if (!taperStart && !(taperEnd && isVeryShort)) {
-    tr = rightPts[1]
+  ctx.fill(path, fillRule)
 
-    for (let i = 1; i < leftPts.length; i++) {
-      if (!vec.isEqual(tr, leftPts[i])) {
-        tl = leftPts[i]
-        break
-      }
-    }
+  ctx.restore()
+}
 
-    if (!vec.isEqual(tr, tl)) {
-      const start = vec.sub(
-        firstPoint.point,
-        vec.mul(vec.uni(vec.vec(tr, tl)), vec.dist(tr, tl) / 2)
-      )
+export {
+  StrokeOptions,
+  StrokeCap,
+  StrokeJoin,
+  StrokePoint,
+  StrokeCenterlinePoint,
+  StrokeBounds,
+  StrokeStamp,
+  SvgPathOptions,
+  CanvasPathOptions,
+  RenderStyle,
+  EasingName,
+  StrokeEasing,
+  NormalizedStrokeOptions,
+  InputPoint,
+  InputPointsReport,
+  StrokeBuffer,
+  SerializableEasing,
+  SerializableStrokeOptions,
+  StrokeBatchItem,
+  StrokeBatch,
+  StrokeBatchResult,
+  StrokeMatrix,
+}
 
-      for (let t = 0, step = 0.2; t <= 1; t += step) {
-        startCap.push(vec.rotAround(start, firstPoint.point, PI * t))
-      }
+export { StrokeBuilder } from './builder'
 
-      leftPts.shift()
-      rightPts.shift()
-    }
-  }
+export { getSvgPathFromStroke, getSvgPathFromStrokePoints } from './svg'
 
-  /*
-    Draw an end cap
+export { getStrokePath2D }
 
-    If the line does not have a tapered end, and unless the line has a tapered
-    start and the line is very short, draw a cap around the last point. Finally, 
-    remove the last left and right points. Otherwise, add the last point. Note
-    that This cap is a full-turn-and-a-half: this prevents incorrect caps on 
-    sharp end turns.
-  */
+export { flattenStroke } from './polygon'
 
-  const endCap: number[][] = []
+export { simplifyOutline } from './simplify'
 
-  if (!taperEnd && !(taperStart && isVeryShort)) {
-    const start = vec.sub(
-      lastPoint.point,
-      vec.mul(vec.per(lastPoint.vector), radius)
-    )
+export {
+  getStrokeBounds,
+  isPointInStroke,
+  getDistanceToStroke,
+} from './geometry'
 
-    for (let t = 0, step = 0.1; t <= 1; t += step) {
-      endCap.push(vec.rotAround(start, lastPoint.point, PI * 3 * t))
-    }
-  } else {
-    endCap.push(lastPoint.point)
-  }
+export { splitStrokeByEraser } from './eraser'
 
-  /*
-    Return the points in the correct windind order: begin on the left side, then 
-    continue around the end cap, then come back along the right side, and finally 
-    complete the start cap.
-  */
+export { getStrokeStamps } from './stamps'
 
-  return leftPts.concat(endCap, rightPts.reverse(), startCap)
-}
+export { cubicBezierEasing, easings } from './easing'
 
-/**
- * ## getStroke
- * @description Returns a stroke as an array of outline points.
- * @param points An array of points (as `[x, y, pressure]` or `{x, y, pressure}`). Pressure is optional.
- * @param options An (optional) object with options.
- * @param options.size	The base size (diameter) of the stroke.
- * @param options.thinning The effect of pressure on the stroke's size.
- * @param options.smoothing	How much to soften the stroke's edges.
- * @param options.easing	An easing function to apply to each point's pressure.
- * @param options.simulatePressure Whether to simulate pressure based on velocity.
- * @param options.start Tapering and easing function for the start of the line.
- * @param options.end Tapering and easing function for the end of the line.
- * @param options.last Whether to handle the points as a completed stroke.
- */
-export default function getStroke<
-  T extends number[],
-  K extends { x: number; y: number; pressure?: number }
->(points: (T | K)[], options: StrokeOptions = {} as StrokeOptions): number[][] {
-  return getStrokeOutlinePoints(getStrokePoints(points, options), options)
-}
+export { transformStrokePoints, transformStrokeOptions } from './transform'
 
-export { StrokeOptions }
+export { normalizeStrokeOptions, StrokeOptionsError }
@@ -0,0 +1,64 @@
+import { StrokeMatrix } from './types'
+
+/*
+  Matrices
+
+  A matrix is an affine transform, as `[a, b, c, d, e, f]` in the same order
+  as a canvas's `setTransform` or a `DOMMatrix`. It maps a point [x, y] to
+  [a * x + c * y + e, b * x + d * y + f].
+*/
+
+/**
+ * Get a matrix as an array, from an array or from an object such as a
+ * `DOMMatrix`.
+ * @param M
+ */
+export function toMatrix(M: StrokeMatrix) {
+  return Array.isArray(M) ? M : [M.a, M.b, M.c, M.d, M.e, M.f]
+}
+
+/**
+ * Get the determinant of a matrix.
+ * @param M
+ */
+export function det(M: number[]) {
+  return M[0] * M[3] - M[1] * M[2]
+}
+
+/**
+ * Transform a point.
+ * @param M
+ * @param A
+ */
+export function applyToPoint(M: number[], A: number[]) {
+  return [M[0] * A[0] + M[2] * A[1] + M[4], M[1] * A[0] + M[3] * A[1] + M[5]]
+}
+
+/**
+ * Transform a vector (a direction), ignoring the matrix's translation.
+ * @param M
+ * @param A
+ */
+export function applyToVector(M: number[], A: number[]) {
+  return [M[0] * A[0] + M[2] * A[1], M[1] * A[0] + M[3] * A[1]]
+}
+
+/**
+ * Transform an angle (in radians), as the direction of a vector at that
+ * angle.
+ * @param M
+ * @param r
+ */
+export function applyToAngle(M: number[], r: number) {
+  const [x, y] = applyToVector(M, [Math.cos(r), Math.sin(r)])
+  return Math.atan2(y, x)
+}
+
+/**
+ * Get the uniform scale of a matrix: the scale of a square whose area the
+ * matrix scales by the same amount.
+ * @param M
+ */
+export function getScale(M: number[]) {
+  return Math.sqrt(Math.abs(det(M)))
+}
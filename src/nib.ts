@@ -0,0 +1,159 @@
+import { StrokePoint } from './types'
+import * as vec from './vec'
+
+const { PI } = Math
+
+// The most that tilt may stretch a nib, relative to its radius
+const MAX_TILT_STRETCH = 8
+
+/**
+ * An elliptical nib. The nib's radius runs across it, and its other axis is
+ * `aspect` times as long and rotated by `angle` (in radians).
+ */
+export interface Nib {
+  angle: number
+  aspect: number
+}
+
+/**
+ * Convert a pen's tilt (as `tiltX` and `tiltY`, in degrees) to its azimuth and
+ * altitude angles (in radians), as described in the Pointer Events spec.
+ * @param tiltX
+ * @param tiltY
+ * @returns
+ */
+export function getAnglesFromTilt(tiltX: number, tiltY: number) {
+  if (!tiltX && !tiltY) return [0, PI / 2]
+
+  const tx = Math.tan((tiltX * PI) / 180)
+  const ty = Math.tan((tiltY * PI) / 180)
+
+  let azimuth = Math.atan2(ty, tx)
+  if (azimuth < 0) azimuth += PI * 2
+
+  const altitude = Math.atan(1 / Math.hypot(tx, ty))
+
+  return [azimuth, altitude]
+}
+
+/**
+ * Convert a pen's azimuth and altitude angles (in radians) to its tilt (as
+ * `tiltX` and `tiltY`, in degrees), undoing `getAnglesFromTilt`.
+ * @param azimuth
+ * @param altitude
+ * @returns
+ */
+export function getTiltFromAngles(azimuth: number, altitude: number) {
+  // The length of the pen's shadow, for a pen of height 1
+  const l = Math.cos(altitude) / Math.sin(altitude)
+
+  return [
+    (Math.atan(Math.cos(azimuth) * l) * 180) / PI,
+    (Math.atan(Math.sin(azimuth) * l) * 180) / PI,
+  ]
+}
+
+/**
+ * Get the nib for a broad-edged pen, or undefined if the nib is round. The
+ * nib's edge is the stroke's size across, and `aspect` times as wide as it
+ * is thick. Lines drawn along the edge's angle are thinnest.
+ * @param options The nib options.
+ * @param options.angle The angle of the nib's edge (in radians).
+ * @param options.aspect The ratio of the nib's width to its thickness.
+ * @returns
+ */
+export function getFixedNib(
+  options: { angle?: number; aspect?: number } = {}
+): Nib | undefined {
+  const { angle = PI / 4, aspect = 4 } = options
+
+  if (!(aspect > 1)) return
+
+  // The radius runs along the edge, and the nib's thickness across it.
+  return { angle: angle + PI / 2, aspect: 1 / aspect }
+}
+
+/**
+ * Get the nib for a point, or undefined if the point should use a round nib.
+ * A fixed nib is used for every point. Otherwise, a pen held at an angle draws
+ * with the side of its tip: the lower the pen's altitude, the longer the nib
+ * in the direction of the pen's azimuth.
+ * @param strokePoint
+ * @param tilt The effect of tilt on the nib, from 0 (none) to 1.
+ * @param fixedNib A fixed nib (see `getFixedNib`).
+ * @returns
+ */
+export function getNib(
+  strokePoint: StrokePoint,
+  tilt: number,
+  fixedNib?: Nib
+): Nib | undefined {
+  if (fixedNib) return fixedNib
+
+  const { azimuth, altitude } = strokePoint
+
+  if (!tilt || azimuth === undefined || altitude === undefined) return
+
+  const stretch = Math.min(MAX_TILT_STRETCH, 1 / Math.sin(altitude))
+
+  const aspect = 1 + tilt * (stretch - 1)
+
+  if (!(aspect > 1)) return
+
+  return { angle: azimuth, aspect }
+}
+
+/**
+ * Get the point on the edge of a nib whose outward normal faces a given
+ * direction, relative to the nib's center. For a round nib, this is the
+ * direction times the radius.
+ * @param normal The direction. Its length scales the result.
+ * @param radius The nib's radius.
+ * @param nib The nib.
+ * @returns
+ */
+export function getNibOffset(normal: number[], radius: number, nib: Nib) {
+  const { angle, aspect } = nib
+
+  const length = vec.len(normal)
+
+  if (!length || !radius) return [0, 0]
+
+  // Move the normal into the nib's space, where its axes are x and y
+  const [nx, ny] = vec.rotAround(normal, [0, 0], -angle)
+
+  const a = radius * aspect
+  const b = radius
+
+  const scale = length / Math.hypot(a * nx, b * ny)
+
+  return vec.rotAround([a * a * nx * scale, b * b * ny * scale], [0, 0], angle)
+}
+
+/**
+ * Get points around the edge of a nib, turning from a starting direction.
+ * @param center The nib's center.
+ * @param normal The starting direction (a unit vector).
+ * @param radius The nib's radius.
+ * @param nib The nib.
+ * @param turn The angle to turn through (in radians).
+ * @param step The fraction of the turn between points.
+ * @returns
+ */
+export function getNibPoints(
+  center: number[],
+  normal: number[],
+  radius: number,
+  nib: Nib,
+  turn: number,
+  step: number
+) {
+  const pts: number[][] = []
+
+  for (let t = 0; t < 1 + step / 2; t += step) {
+    const n = vec.rotAround(normal, [0, 0], turn * t)
+    pts.push(vec.add(center, getNibOffset(n, radius, nib)))
+  }
+
+  return pts
+}
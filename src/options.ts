@@ -0,0 +1,345 @@
+import { easings, getEasing } from './easing'
+import {
+  NormalizedStrokeOptions,
+  StrokeCap,
+  StrokeJoin,
+  StrokeOptions,
+} from './types'
+import { clamp, isNumber } from './utils'
+
+const CAPS: StrokeCap[] = ['round', 'butt', 'square', 'arrow']
+
+const JOINS: StrokeJoin[] = ['round', 'miter', 'bevel']
+
+const SPLINES = ['catmull-rom', 'centripetal']
+
+/**
+ * ## StrokeOptionsError
+ * @description The error thrown for an invalid option in strict mode (see the `strict` option). Its `field` is the option's name, such as `size` or `start.taper`, and its `value` is the invalid value.
+ */
+export class StrokeOptionsError extends Error {
+  field: string
+  value: unknown
+
+  constructor(field: string, value: unknown, expected: string) {
+    super(
+      `Invalid stroke option "${field}": expected ${expected}, but got ${String(
+        value
+      )}.`
+    )
+
+    // Keep `instanceof` working when compiled to ES5.
+    Object.setPrototypeOf(this, StrokeOptionsError.prototype)
+
+    this.name = 'StrokeOptionsError'
+    this.field = field
+    this.value = value
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Check an option. A missing option gets its default value. An invalid option
+ * throws an error in strict mode, or otherwise gets its default value too.
+ * @param field The option's name.
+ * @param value The option's value.
+ * @param fallback The option's default value.
+ * @param isValid Whether a value is valid.
+ * @param expected A description of a valid value, for the error.
+ * @param strict Whether to throw an error for an invalid value.
+ * @returns
+ */
+function getOption<T>(
+  field: string,
+  value: unknown,
+  fallback: T,
+  isValid: (value: unknown) => boolean,
+  expected: string,
+  strict: boolean
+): T {
+  if (value === undefined) return fallback
+
+  if (isValid(value)) return value as T
+
+  if (strict) throw new StrokeOptionsError(field, value, expected)
+
+  return fallback
+}
+
+/**
+ * Check a numeric option, as with `getOption`. Outside of strict mode, a
+ * number outside of the option's range is clamped to that range.
+ * @param field The option's name.
+ * @param value The option's value.
+ * @param fallback The option's default value.
+ * @param strict Whether to throw an error for an invalid value.
+ * @param min The least valid value.
+ * @param max The greatest valid value.
+ * @returns
+ */
+function getNumber(
+  field: string,
+  value: unknown,
+  fallback: number,
+  strict: boolean,
+  min = -Infinity,
+  max = Infinity
+) {
+  const expected =
+    min === -Infinity
+      ? 'a number'
+      : max === Infinity
+      ? `a number of at least ${min}`
+      : `a number from ${min} to ${max}`
+
+  if (!strict && isNumber(value)) return clamp(value, min, max)
+
+  return getOption(
+    field,
+    value,
+    fallback,
+    v => isNumber(v) && v >= min && v <= max,
+    expected,
+    strict
+  )
+}
+
+/**
+ * Check an easing option, as with `getOption`, and get its easing function.
+ * @param field The option's name.
+ * @param value The option's value.
+ * @param fallback The option's default easing function.
+ * @param strict Whether to throw an error for an invalid value.
+ * @returns
+ */
+function getEasingOption(
+  field: string,
+  value: unknown,
+  fallback: (t: number) => number,
+  strict: boolean
+) {
+  const easing = getOption(
+    field,
+    value,
+    fallback,
+    v =>
+      typeof v === 'function' ||
+      (typeof v === 'string' && easings.hasOwnProperty(v)) ||
+      (Array.isArray(v) && v.length === 4 && v.every(isNumber)),
+    'an easing function, the name of an easing, or four control points',
+    strict
+  )
+
+  return getEasing(easing, fallback)
+}
+
+/**
+ * Check the `start` or `end` option.
+ * @param field The option's name.
+ * @param value The option's value.
+ * @param fallbackEasing The default easing for the end's taper.
+ * @param strict Whether to throw an error for an invalid value.
+ * @returns
+ */
+function getEndOptions(
+  field: string,
+  value: unknown,
+  fallbackEasing: (t: number) => number,
+  strict: boolean
+) {
+  const end = getOption<Record<string, unknown>>(
+    field,
+    value,
+    {},
+    isObject,
+    'an object',
+    strict
+  )
+
+  return {
+    taper: getNumber(`${field}.taper`, end.taper, 0, strict, 0),
+    easing: getEasingOption(
+      `${field}.easing`,
+      end.easing,
+      fallbackEasing,
+      strict
+    ),
+    cap: getOption<StrokeCap>(
+      `${field}.cap`,
+      end.cap,
+      'round',
+      v => CAPS.indexOf(v as StrokeCap) > -1,
+      `one of ${CAPS.join(', ')}`,
+      strict
+    ),
+  }
+}
+
+/**
+ * ## normalizeStrokeOptions
+ * @description Get a stroke's options with every option set, using the default value for each missing option. Invalid options, such as a negative `size` or a `thinning` greater than 1, are clamped to their range or replaced with their default values. With the `strict` option, an invalid option instead throws a `StrokeOptionsError` that names the option.
+ * @param options An (optional) object with options (see `getStroke`).
+ */
+export function normalizeStrokeOptions(
+  options: StrokeOptions = {} as StrokeOptions
+): NormalizedStrokeOptions {
+  const strict = getOption(
+    'strict',
+    options.strict,
+    false,
+    v => typeof v === 'boolean',
+    'a boolean',
+    false
+  )
+
+  const getBoolean = (field: string, value: unknown, fallback: boolean) =>
+    getOption(
+      field,
+      value,
+      fallback,
+      v => typeof v === 'boolean',
+      'a boolean',
+      strict
+    )
+
+  const nib = getOption<Record<string, unknown> | undefined>(
+    'nib',
+    options.nib,
+    undefined,
+    isObject,
+    'an object',
+    strict
+  )
+
+  const speed = getOption<Record<string, unknown>>(
+    'speed',
+    options.speed,
+    {},
+    isObject,
+    'an object',
+    strict
+  )
+
+  const minSpeed = getNumber('speed.min', speed.min, 0, strict, 0)
+
+  const resample = getOption<Record<string, unknown> | undefined>(
+    'resample',
+    options.resample,
+    undefined,
+    isObject,
+    'an object',
+    strict
+  )
+
+  return {
+    size: getOption(
+      'size',
+      options.size,
+      8,
+      v => isNumber(v) && v > 0,
+      'a number greater than 0',
+      strict
+    ),
+    thinning: getNumber('thinning', options.thinning, 0.5, strict, -1, 1),
+    smoothing: getNumber('smoothing', options.smoothing, 0.5, strict, 0, 1),
+    streamline: getNumber('streamline', options.streamline, 0.5, strict, 0, 1),
+    easing: getEasingOption('easing', options.easing, easings.linear, strict),
+    simulatePressure: getBoolean(
+      'simulatePressure',
+      options.simulatePressure,
+      true
+    ),
+    tilt: getNumber('tilt', options.tilt, 0, strict, 0, 1),
+    nib: nib && {
+      angle: getNumber('nib.angle', nib.angle, Math.PI / 4, strict),
+      aspect: getOption(
+        'nib.aspect',
+        nib.aspect,
+        4,
+        v => isNumber(v) && v > 0,
+        'a number greater than 0',
+        strict
+      ),
+    },
+    speed: {
+      min: minSpeed,
+      max: getOption(
+        'speed.max',
+        speed.max,
+        2,
+        v => isNumber(v) && v > minSpeed,
+        'a number greater than speed.min',
+        strict
+      ),
+    },
+    start: getEndOptions('start', options.start, easings.easeOutQuad, strict),
+    end: getEndOptions('end', options.end, easings.easeOutCubic, strict),
+    resample: resample && {
+      spline: getOption<'catmull-rom' | 'centripetal'>(
+        'resample.spline',
+        resample.spline,
+        'centripetal',
+        v => SPLINES.indexOf(v as string) > -1,
+        `one of ${SPLINES.join(', ')}`,
+        strict
+      ),
+      spacing: getOption(
+        'resample.spacing',
+        resample.spacing,
+        0.25,
+        v => isNumber(v) && v > 0,
+        'a number greater than 0',
+        strict
+      ),
+    },
+    simplify: getNumber('simplify', options.simplify, 0, strict, 0),
+    dash: getOption<number[]>(
+      'dash',
+      options.dash,
+      [],
+      v => Array.isArray(v) && v.every(n => isNumber(n) && n >= 0),
+      'an array of numbers of at least 0',
+      strict
+    ),
+    dashOffset: getNumber('dashOffset', options.dashOffset, 0, strict),
+    join: getOption<StrokeJoin>(
+      'join',
+      options.join,
+      'round',
+      v => JOINS.indexOf(v as StrokeJoin) > -1,
+      `one of ${JOINS.join(', ')}`,
+      strict
+    ),
+    miterLimit: getNumber('miterLimit', options.miterLimit, 4, strict, 1),
+    joinSegments: getOption(
+      'joinSegments',
+      options.joinSegments,
+      5,
+      v => isNumber(v) && v >= 1 && v % 1 === 0,
+      'a whole number of at least 1',
+      strict
+    ),
+    scale: getOption<number | undefined>(
+      'scale',
+      options.scale,
+      undefined,
+      v => isNumber(v) && v > 0,
+      'a number greater than 0',
+      strict
+    ),
+    tolerance: getOption(
+      'tolerance',
+      options.tolerance,
+      0.25,
+      v => isNumber(v) && v > 0,
+      'a number greater than 0',
+      strict
+    ),
+    last: getBoolean('last', options.last, false),
+    closed: getBoolean('closed', options.closed, false),
+    strict,
+  }
+}
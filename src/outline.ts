@@ -0,0 +1,1056 @@
+import { getStrokeRadius, clamp } from './utils'
+import {
+  StrokeCap,
+  StrokeJoin,
+  StrokeOptions,
+  StrokePoint,
+  StrokeCenterlinePoint,
+} from './types'
+import { Nib, getFixedNib, getNib, getNibOffset, getNibPoints } from './nib'
+import { simplifyLine } from './simplify'
+import { normalizeStrokeOptions } from './options'
+import * as vec from './vec'
+
+const { min, PI } = Math
+
+// The size of an arrow cap's head, relative to the line's radius
+const ARROW_WIDTH = 3
+const ARROW_LENGTH = 5
+
+// The largest and smallest angles between the points of a round arc, when the
+// arc's detail depends on the `scale` option
+const MAX_ARC_ANGLE = PI / 2
+const MIN_ARC_ANGLE = PI / 64
+
+/**
+ * The options used while building an outline, with defaults applied.
+ */
+export interface OutlineOptions {
+  size: number
+  thinning: number
+  smoothing: number
+  streamline: number
+  simulatePressure: boolean
+  tilt: number
+  nib?: Nib
+  minSpeed: number
+  maxSpeed: number
+  easing: (pressure: number) => number
+  taperStart: number
+  taperStartEase: (distance: number) => number
+  capStart: StrokeCap
+  taperEnd: number
+  taperEndEase: (distance: number) => number
+  capEnd: StrokeCap
+  join: StrokeJoin
+  miterLimit: number
+  joinSegments: number
+  scale?: number
+  tolerance: number
+  simplify: number
+  dash: number[]
+  dashOffset: number
+  isComplete: boolean
+  closed: boolean
+}
+
+/**
+ * The state carried from one point to the next while building an outline.
+ * A copy of this state may be saved and resumed later, which allows the
+ * outline to be built incrementally.
+ */
+export interface OutlineState {
+  leftPts: number[][]
+  rightPts: number[][]
+  leftCorners: number[]
+  rightCorners: number[]
+  leftLengths: number[]
+  rightLengths: number[]
+  pl: number[]
+  pr: number[]
+  tl: number[]
+  tr: number[]
+  startRadius: number
+  prevPressure: number
+  prevVector: number[]
+  radius: number
+}
+
+/**
+ * Apply defaults to a set of stroke options (see `normalizeStrokeOptions`).
+ * @param options
+ * @returns
+ */
+export function getOutlineOptions(
+  options: Partial<StrokeOptions> = {}
+): OutlineOptions {
+  const normalized = normalizeStrokeOptions(options)
+
+  const {
+    size,
+    thinning,
+    smoothing,
+    simulatePressure,
+    tilt,
+    easing,
+    speed,
+    start,
+    end,
+    join,
+    miterLimit,
+    joinSegments,
+    scale,
+    tolerance,
+    simplify,
+    dash,
+    dashOffset,
+    last: isComplete,
+    closed,
+  } = normalized
+
+  let { streamline } = normalized
+
+  const nib = normalized.nib && getFixedNib(normalized.nib)
+
+  const { min: minSpeed, max: maxSpeed } = speed
+
+  streamline /= 2
+
+  let { taper: taperStart } = start
+  let { taper: taperEnd } = end
+
+  const { easing: taperStartEase, cap: capStart } = start
+  const { easing: taperEndEase, cap: capEnd } = end
+
+  // A closed stroke has no start or end to taper.
+  if (closed) {
+    taperStart = 0
+    taperEnd = 0
+  }
+
+  return {
+    size,
+    thinning,
+    smoothing,
+    streamline,
+    simulatePressure,
+    tilt,
+    nib,
+    minSpeed,
+    maxSpeed,
+    easing,
+    taperStart,
+    taperStartEase,
+    capStart,
+    taperEnd,
+    taperEndEase,
+    capEnd,
+    join,
+    miterLimit,
+    joinSegments,
+    scale,
+    tolerance,
+    simplify,
+    dash,
+    dashOffset,
+    isComplete,
+    closed,
+  }
+}
+
+/**
+ * Get the step (as a fraction of the arc) between the points of a round arc,
+ * such as a cap or a join. Without the `scale` option, this is the given
+ * fixed step. With it, the arc gets as few points as it can while staying
+ * within `tolerance` screen pixels of a true arc at that scale. Since the
+ * step may not add up to exactly 1, loops along the arc should run while
+ * `t < 1 + step / 2`.
+ * @param radius The arc's radius.
+ * @param angle The arc's angle (in radians).
+ * @param step The fixed step.
+ * @param options The outline options.
+ * @param nib The nib drawing the arc, if it is not round.
+ * @returns
+ */
+export function getArcStep(
+  radius: number,
+  angle: number,
+  step: number,
+  options: OutlineOptions,
+  nib?: Nib
+) {
+  const { scale, tolerance } = options
+
+  if (!scale) return step
+
+  // A long nib reaches further than its radius.
+  const r = radius * scale * (nib ? Math.max(1, nib.aspect) : 1)
+
+  // The widest angle whose chord is within the tolerance of the arc
+  const max = r > tolerance ? 2 * Math.acos(1 - tolerance / r) : MAX_ARC_ANGLE
+
+  return (
+    1 /
+    clamp(
+      Math.ceil(angle / max),
+      Math.ceil(angle / MAX_ARC_ANGLE),
+      Math.ceil(angle / MIN_ARC_ANGLE)
+    )
+  )
+}
+
+/**
+ * Get whether a stroke's points should be drawn as a closed loop. The points
+ * of a closed stroke end with a copy of the first point (see
+ * `getClosedStrokePoints`), and need at least three other points.
+ * @param points The stroke's points.
+ * @param options The outline options.
+ * @returns
+ */
+export function isClosedLoop(points: StrokePoint[], options: OutlineOptions) {
+  const len = points.length
+  return (
+    options.closed &&
+    len > 3 &&
+    vec.isEqual(points[0].point, points[len - 1].point)
+  )
+}
+
+/**
+ * Create the initial state for an outline.
+ * @param points The stroke's points.
+ * @param options The outline options.
+ * @returns
+ */
+export function createOutlineState(
+  points: StrokePoint[],
+  options: OutlineOptions
+): OutlineState {
+  const { size, thinning, easing } = options
+
+  const len = points.length
+
+  // Previous pressure (start with average of first five pressures)
+  let prevPressure = points
+    .slice(0, 5)
+    .reduce((acc, cur) => (acc + cur.pressure) / 2, points[0].pressure)
+
+  // For a closed stroke, carry the pressure once around the loop so that the
+  // pressure at the start continues from the pressure at the end.
+  if (isClosedLoop(points, options)) {
+    for (let i = 0; i < len - 1; i++) {
+      prevPressure = getPointRadius(points, i, prevPressure, options).pressure
+    }
+  }
+
+  // The current radius
+  const radius = getStrokeRadius(
+    size,
+    thinning,
+    easing,
+    points[len - 1].pressure
+  )
+
+  // Previous left and right points
+  const pl = points[0].point
+
+  return {
+    leftPts: [],
+    rightPts: [],
+    leftCorners: [],
+    rightCorners: [],
+    leftLengths: [],
+    rightLengths: [],
+    pl,
+    pr: pl,
+    tl: pl,
+    tr: pl,
+    startRadius: radius,
+    prevPressure,
+    prevVector: points[0].vector,
+    radius,
+  }
+}
+
+/**
+ * Copy an outline state so that it may be resumed without changing the
+ * original.
+ * @param state
+ * @returns
+ */
+export function copyOutlineState(state: OutlineState): OutlineState {
+  return {
+    ...state,
+    leftPts: state.leftPts.slice(),
+    rightPts: state.rightPts.slice(),
+    leftCorners: state.leftCorners.slice(),
+    rightCorners: state.rightCorners.slice(),
+    leftLengths: state.leftLengths.slice(),
+    rightLengths: state.rightLengths.slice(),
+  }
+}
+
+/**
+ * Get the (real or simulated) pressure and the radius of the point at index
+ * `i`, including the effect of any tapering.
+ * @param points The stroke's points.
+ * @param i The index of the point.
+ * @param prevPressure The previous point's pressure.
+ * @param options The outline options.
+ * @returns
+ */
+export function getPointRadius(
+  points: StrokePoint[],
+  i: number,
+  prevPressure: number,
+  options: OutlineOptions
+) {
+  const {
+    size,
+    thinning,
+    simulatePressure,
+    minSpeed,
+    maxSpeed,
+    easing,
+    taperStart,
+    taperStartEase,
+    taperEnd,
+    taperEndEase,
+  } = options
+
+  // The total length of the line
+  const totalLength = points[points.length - 1].runningLength
+
+  let { pressure, distance, runningLength, velocity } = points[i]
+
+  let radius: number
+
+  /*
+    Calculate the radius
+
+    If not thinning, the current point's radius will be half the size; or
+    otherwise, the size will be based on the current (real or simulated)
+    pressure.
+
+    Simulated pressure falls as the line moves faster. If the point has a
+    velocity, use its speed between the minimum and maximum speeds; or
+    otherwise, use its distance from the previous point.
+  */
+
+  if (thinning) {
+    if (simulatePressure) {
+      const rp =
+        velocity === undefined
+          ? min(1, 1 - distance / size)
+          : maxSpeed > minSpeed
+          ? 1 - clamp((velocity - minSpeed) / (maxSpeed - minSpeed), 0, 1)
+          : velocity > minSpeed
+          ? 0
+          : 1
+      const sp = min(1, distance / size)
+      pressure = min(1, prevPressure + (rp - prevPressure) * (sp / 2))
+    }
+
+    radius = getStrokeRadius(size, thinning, easing, pressure)
+  } else {
+    radius = size / 2
+  }
+
+  /*
+    Apply tapering
+
+    If the current length is within the taper distance at either the
+    start or the end, calculate the taper strengths. Apply the smaller
+    of the two taper strengths to the radius.
+  */
+
+  const ts =
+    runningLength < taperStart ? taperStartEase(runningLength / taperStart) : 1
+
+  const te =
+    totalLength - runningLength < taperEnd
+      ? taperEndEase((totalLength - runningLength) / taperEnd)
+      : 1
+
+  radius *= Math.min(ts, te)
+
+  return { pressure, radius }
+}
+
+/**
+ * Get a stroke's points, each with the radius that the stroke's outline will
+ * have at that point (see `getStrokeCenterline`).
+ * @param points The stroke's points.
+ * @param options The outline options.
+ * @returns
+ */
+export function getCenterline(
+  points: StrokePoint[],
+  options: OutlineOptions
+): StrokeCenterlinePoint[] {
+  if (points.length === 0) return []
+
+  let { prevPressure } = createOutlineState(points, options)
+
+  const centerline = points.map((strokePoint, i) => {
+    const { pressure, radius } = getPointRadius(
+      points,
+      i,
+      prevPressure,
+      options
+    )
+
+    // As in the outline, sharp corners don't carry their pressure forward.
+    const next = points[i + 1]
+
+    if (!next || vec.dpr(strokePoint.vector, next.vector) >= 0) {
+      prevPressure = pressure
+    }
+
+    return { ...strokePoint, pressure, radius }
+  })
+
+  // The last point of a closed stroke is a copy of its first point.
+  if (isClosedLoop(points, options)) {
+    const { pressure, radius } = centerline[0]
+    centerline[centerline.length - 1] = {
+      ...centerline[centerline.length - 1],
+      pressure,
+      radius,
+    }
+  }
+
+  return centerline
+}
+
+/**
+ * Get the point where two lines meet, or undefined if the lines are parallel.
+ * @param A A point on the first line.
+ * @param u The first line's direction.
+ * @param B A point on the second line.
+ * @param v The second line's direction.
+ * @returns
+ */
+function getIntersection(A: number[], u: number[], B: number[], v: number[]) {
+  const d = vec.dpr(vec.per(u), v)
+
+  if (Math.abs(d) < 1e-9) return
+
+  return vec.add(A, vec.mul(u, vec.dpr(vec.per(vec.sub(B, A)), v) / d))
+}
+
+/**
+ * Add points drawn around a corner to one side of an outline, marking them as
+ * corner points so that simplifying the outline will keep them.
+ * @param pts The side's points.
+ * @param corners The indices of the side's corner points.
+ * @param lengths The running lengths of the side's points.
+ * @param cornerPts The points to add.
+ * @param runningLength The running length at the corner.
+ */
+function addCornerPoints(
+  pts: number[][],
+  corners: number[],
+  lengths: number[],
+  cornerPts: number[][],
+  runningLength: number
+) {
+  for (const pt of cornerPts) {
+    corners.push(pts.length)
+    lengths.push(runningLength)
+    pts.push(pt)
+  }
+}
+
+/**
+ * Simplify one side of an outline (see the `simplify` option), keeping its
+ * corner points.
+ * @param pts The side's points.
+ * @param corners The indices of the side's corner points.
+ * @param removed The number of points removed from the start of the side.
+ * @param tolerance The greatest distance from a removed point to the side.
+ * @returns
+ */
+function simplifySide(
+  pts: number[][],
+  corners: number[],
+  removed: number,
+  tolerance: number
+) {
+  if (!(tolerance > 0)) return pts
+
+  return simplifyLine(
+    pts,
+    tolerance,
+    corners.map(i => i - removed)
+  )
+}
+
+/**
+ * Add the outline's left and right points for the point at index `i`.
+ * @param state The outline state to update.
+ * @param points The stroke's points.
+ * @param i The index of the point to add.
+ * @param options The outline options.
+ */
+export function addOutlinePoint(
+  state: OutlineState,
+  points: StrokePoint[],
+  i: number,
+  options: OutlineOptions
+) {
+  const { size, smoothing, streamline, tilt, scale } = options
+
+  const { leftPts, rightPts, prevVector } = state
+
+  const { point, vector, runningLength } = points[i]
+
+  const { pressure, radius } = getPointRadius(
+    points,
+    i,
+    state.prevPressure,
+    options
+  )
+
+  // The first point of a closed stroke has no previous point to lerp from.
+  const isFirst = options.closed ? i === 0 : i === 1
+
+  state.radius = radius
+
+  if (isFirst) state.startRadius = radius
+
+  // The nib, if the point should not use a round nib
+  const nib = getNib(points[i], tilt, options.nib)
+
+  /*
+    Handle sharp corners
+
+    Find the difference (dot product) between the current and next vector.
+    If the next vector is at more than a right angle to the current vector,
+    draw a cap at the current point.
+  */
+
+  const nextVector = points[i + 1].vector
+
+  const dpr = vec.dpr(vector, nextVector)
+
+  if (dpr < 0 && options.join !== 'round') {
+    /*
+      Draw a miter or bevel join
+
+      On the outer side of the corner, join the offsets of the incoming and
+      outgoing lines: either at the point where they meet (unless that point
+      is further from the corner than the miter limit allows) or directly.
+      On the inner side, pivot around the corner's point.
+    */
+
+    const n1 = vec.per(prevVector)
+    const n2 = vec.per(nextVector)
+
+    const o1 = nib ? getNibOffset(n1, radius, nib) : vec.mul(n1, radius)
+    const o2 = nib ? getNibOffset(n2, radius, nib) : vec.mul(n2, radius)
+
+    // If the line turns to its left, the right side is on the outside.
+    const s = vec.dpr(n1, nextVector) > 0 ? 1 : -1
+
+    const a = vec.add(point, vec.mul(o1, s))
+    const b = vec.add(point, vec.mul(o2, s))
+
+    const outerPts = [a]
+
+    if (options.join === 'miter') {
+      const tip = getIntersection(a, prevVector, b, nextVector)
+
+      if (tip && vec.dist(tip, point) <= radius * options.miterLimit) {
+        outerPts.push(tip)
+      }
+    }
+
+    outerPts.push(b)
+
+    const innerPts = [
+      vec.sub(point, vec.mul(o1, s)),
+      point,
+      vec.sub(point, vec.mul(o2, s)),
+    ]
+
+    const [sidePts, otherPts] =
+      s > 0 ? [outerPts, innerPts] : [innerPts, outerPts]
+
+    addCornerPoints(
+      rightPts,
+      state.rightCorners,
+      state.rightLengths,
+      sidePts,
+      runningLength
+    )
+
+    addCornerPoints(
+      leftPts,
+      state.leftCorners,
+      state.leftLengths,
+      otherPts,
+      runningLength
+    )
+
+    state.tr = sidePts[sidePts.length - 1]
+    state.tl = otherPts[otherPts.length - 1]
+
+    state.pl = state.tl
+    state.pr = state.tr
+
+    return
+  }
+
+  if (dpr < 0) {
+    const normal = vec.per(prevVector)
+    const offset = vec.mul(normal, radius)
+    const step = getArcStep(radius, PI, 1 / options.joinSegments, options, nib)
+
+    for (let t = 0; t < 1 - step / 2; t += step) {
+      if (nib) {
+        state.tr = vec.add(
+          point,
+          getNibOffset(vec.rotAround(normal, [0, 0], PI * -t), radius, nib)
+        )
+        state.tl = vec.add(
+          point,
+          getNibOffset(
+            vec.rotAround(vec.neg(normal), [0, 0], PI * t),
+            radius,
+            nib
+          )
+        )
+      } else {
+        state.tr = vec.rotAround(vec.add(point, offset), point, PI * -t)
+        state.tl = vec.rotAround(vec.sub(point, offset), point, PI * t)
+      }
+
+      addCornerPoints(
+        rightPts,
+        state.rightCorners,
+        state.rightLengths,
+        [state.tr],
+        runningLength
+      )
+
+      addCornerPoints(
+        leftPts,
+        state.leftCorners,
+        state.leftLengths,
+        [state.tl],
+        runningLength
+      )
+    }
+
+    state.pl = state.tl
+    state.pr = state.tr
+
+    return
+  }
+
+  /*
+    Add regular points
+
+    Project points to either side of the current point, using the
+    calculated size as a distance. If a point's distance to the
+    previous point on that side greater than the minimum distance
+    (or if the corner is kinda sharp), add the points to the side's
+    points array.
+  */
+
+  const normal = vec.per(vec.lrp(nextVector, vector, dpr))
+
+  const offset = nib
+    ? getNibOffset(normal, radius, nib)
+    : vec.mul(normal, radius)
+
+  const tl = vec.sub(point, offset)
+  const tr = vec.add(point, offset)
+
+  state.tl = tl
+  state.tr = tr
+
+  const alwaysAdd = isFirst || dpr < 0.25
+
+  // With the `scale` option, keep the same spacing on screen at any scale.
+  const spacing = (runningLength > size ? size : size / 2) * smoothing
+  const minDistance = Math.pow(scale ? spacing / scale : spacing, 2)
+
+  if (alwaysAdd || vec.dist2(state.pl, tl) > minDistance) {
+    leftPts.push(
+      isFirst && options.closed ? tl : vec.lrp(state.pl, tl, streamline)
+    )
+    state.leftLengths.push(runningLength)
+    state.pl = tl
+  }
+
+  if (alwaysAdd || vec.dist2(state.pr, tr) > minDistance) {
+    rightPts.push(
+      isFirst && options.closed ? tr : vec.lrp(state.pr, tr, streamline)
+    )
+    state.rightLengths.push(runningLength)
+    state.pr = tr
+  }
+
+  // Set variables for next iteration
+
+  state.prevPressure = pressure
+  state.prevVector = vector
+}
+
+/**
+ * Get the points of a butt, square or arrow cap, from one side of the line to
+ * the other.
+ * @param center The point at the end of the line.
+ * @param offset The offset from the center to the side where the cap begins.
+ * @param direction The direction (a unit vector) in which the cap extends.
+ * @param radius The line's radius at the cap.
+ * @param cap The cap's style.
+ * @returns
+ */
+export function getCapPoints(
+  center: number[],
+  offset: number[],
+  direction: number[],
+  radius: number,
+  cap: StrokeCap
+): number[][] {
+  const a = vec.add(center, offset)
+  const b = vec.sub(center, offset)
+
+  switch (cap) {
+    case 'square': {
+      const extension = vec.mul(direction, radius)
+      return [a, vec.add(a, extension), vec.add(b, extension), b]
+    }
+    case 'arrow': {
+      const wing = vec.mul(vec.uni(offset), radius * ARROW_WIDTH)
+      return [
+        a,
+        vec.add(center, wing),
+        vec.add(center, vec.mul(direction, radius * ARROW_LENGTH)),
+        vec.sub(center, wing),
+        b,
+      ]
+    }
+    default: {
+      return [a, b]
+    }
+  }
+}
+
+/**
+ * Complete an outline by adding its caps, returning the outline's points in
+ * the correct winding order. This does not change the given state.
+ * @param state The outline state.
+ * @param points The stroke's points.
+ * @param options The outline options.
+ * @returns
+ */
+export function getOutlineFromState(
+  state: OutlineState,
+  points: StrokePoint[],
+  options: OutlineOptions
+): number[][] {
+  const {
+    size,
+    thinning,
+    easing,
+    taperStart,
+    taperEnd,
+    capStart,
+    capEnd,
+    isComplete,
+    tilt,
+  } = options
+
+  const { radius, startRadius } = state
+
+  let leftPts = state.leftPts.slice()
+  let rightPts = state.rightPts.slice()
+
+  const len = points.length
+
+  let { tl, tr } = state
+
+  /*
+    Drawing caps
+
+    Now that we have our points on either side of the line, we need to
+    draw caps at the start and end. Tapered lines don't have caps, but
+    may have dots for very short lines.
+  */
+
+  const firstPoint = points[0]
+  const lastPoint = points[len - 1]
+  const firstNib = getNib(firstPoint, tilt, options.nib)
+  const lastNib = getNib(lastPoint, tilt, options.nib)
+  const isVeryShort = rightPts.length < 2 || leftPts.length < 2
+
+  /*
+    Draw a dot for very short or completed strokes
+
+    If the line is too short to gather left or right points and if the line is
+    not tapered on either side, draw a dot. If the line is tapered, then only
+    draw a dot if the line is both very short and complete. If we draw a dot,
+    we can just return those points.
+  */
+
+  if (isVeryShort && (!(taperStart || taperEnd) || isComplete)) {
+    let ir = 0
+
+    for (let i = 0; i < len; i++) {
+      const { pressure, runningLength } = points[i]
+      if (runningLength > size) {
+        ir = getStrokeRadius(size, thinning, easing, pressure)
+        break
+      }
+    }
+
+    // A stroke with a single point has no direction, so face right.
+    const normal = vec.per(
+      vec.isEqual(firstPoint.point, lastPoint.point)
+        ? [-1, 0]
+        : vec.uni(vec.vec(lastPoint.point, firstPoint.point))
+    )
+
+    const step = getArcStep(ir || radius, PI * 2, 0.1, options, firstNib)
+
+    if (firstNib) {
+      return getNibPoints(
+        firstPoint.point,
+        vec.neg(normal),
+        ir || radius,
+        firstNib,
+        PI * 2,
+        step
+      )
+    }
+
+    const start = vec.sub(firstPoint.point, vec.mul(normal, ir || radius))
+
+    const dotPts: number[][] = []
+
+    for (let t = 0; t < 1 + step / 2; t += step) {
+      dotPts.push(vec.rotAround(start, firstPoint.point, PI * 2 * t))
+    }
+
+    return dotPts
+  }
+
+  /*
+    Draw a start cap
+
+    Unless the line has a tapered start, or unless the line has a tapered end
+    and the line is very short, draw a start cap around the first point. Use
+    the distance between the second left and right point for the cap's radius.
+    Finally remove the first left and right points. :psyduck:
+  */
+
+  const startCap: number[][] = []
+
+  if (!taperStart && !(taperEnd && isVeryShort)) {
+    tr = rightPts[1]
+
+    for (let i = 1; i < leftPts.length; i++) {
+      if (!vec.isEqual(tr, leftPts[i])) {
+        tl = leftPts[i]
+        break
+      }
+    }
+
+    if (!vec.isEqual(tr, tl)) {
+      if (capStart !== 'round') {
+        const normal = vec.neg(vec.uni(vec.vec(tr, tl)))
+        const r = firstNib ? startRadius : vec.dist(tr, tl) / 2
+
+        startCap.push(
+          ...getCapPoints(
+            firstPoint.point,
+            firstNib ? getNibOffset(normal, r, firstNib) : vec.mul(normal, r),
+            vec.rotAround(normal, [0, 0], PI / 2),
+            r,
+            capStart
+          )
+        )
+      } else if (firstNib) {
+        startCap.push(
+          ...getNibPoints(
+            firstPoint.point,
+            vec.neg(vec.uni(vec.vec(tr, tl))),
+            startRadius,
+            firstNib,
+            PI,
+            getArcStep(startRadius, PI, 0.2, options, firstNib)
+          )
+        )
+      } else {
+        const r = vec.dist(tr, tl) / 2
+
+        const start = vec.sub(
+          firstPoint.point,
+          vec.mul(vec.uni(vec.vec(tr, tl)), r)
+        )
+
+        const step = getArcStep(r, PI, 0.2, options)
+
+        for (let t = 0; t < 1 + step / 2; t += step) {
+          startCap.push(vec.rotAround(start, firstPoint.point, PI * t))
+        }
+      }
+
+      leftPts.shift()
+      rightPts.shift()
+    }
+  }
+
+  /*
+    Draw an end cap
+
+    If the line does not have a tapered end, and unless the line has a tapered
+    start and the line is very short, draw a cap around the last point. Finally,
+    remove the last left and right points. Otherwise, add the last point. Note
+    that This cap is a full-turn-and-a-half: this prevents incorrect caps on
+    sharp end turns.
+  */
+
+  const endCap: number[][] = []
+
+  if (!taperEnd && !(taperStart && isVeryShort)) {
+    if (capEnd !== 'round') {
+      const normal = vec.neg(vec.per(lastPoint.vector))
+
+      endCap.push(
+        ...getCapPoints(
+          lastPoint.point,
+          lastNib
+            ? getNibOffset(normal, radius, lastNib)
+            : vec.mul(normal, radius),
+          vec.neg(lastPoint.vector),
+          radius,
+          capEnd
+        )
+      )
+    } else if (lastNib) {
+      endCap.push(
+        ...getNibPoints(
+          lastPoint.point,
+          vec.neg(vec.per(lastPoint.vector)),
+          radius,
+          lastNib,
+          PI * 3,
+          getArcStep(radius, PI * 3, 0.1, options, lastNib)
+        )
+      )
+    } else {
+      const start = vec.sub(
+        lastPoint.point,
+        vec.mul(vec.per(lastPoint.vector), radius)
+      )
+
+      const step = getArcStep(radius, PI * 3, 0.1, options)
+
+      for (let t = 0; t < 1 + step / 2; t += step) {
+        endCap.push(vec.rotAround(start, lastPoint.point, PI * 3 * t))
+      }
+    }
+  } else {
+    endCap.push(lastPoint.point)
+  }
+
+  /*
+    Return the points in the correct windind order: begin on the left side, then
+    continue around the end cap, then come back along the right side, and finally
+    complete the start cap.
+  */
+
+  // Simplify the sides, but not the caps.
+  const removed = state.leftPts.length - leftPts.length
+
+  leftPts = simplifySide(leftPts, state.leftCorners, removed, options.simplify)
+  rightPts = simplifySide(
+    rightPts,
+    state.rightCorners,
+    removed,
+    options.simplify
+  )
+
+  return leftPts.concat(endCap, rightPts.reverse(), startCap)
+}
+
+/**
+ * Get the outline of a closed stroke as a ring: the left side's points,
+ * followed by the right side's points in reverse, joined at the first point.
+ * The two sides wind in opposite directions, so that the area between them
+ * is filled with either the non-zero or even-odd fill rule.
+ * @param state The outline state.
+ * @param options The outline options.
+ * @returns
+ */
+export function getRingFromState(
+  state: OutlineState,
+  options: OutlineOptions
+): number[][] {
+  const leftPts = simplifySide(
+    state.leftPts,
+    state.leftCorners,
+    0,
+    options.simplify
+  )
+
+  const rightPts = simplifySide(
+    state.rightPts,
+    state.rightCorners,
+    0,
+    options.simplify
+  )
+
+  return leftPts.concat(
+    [leftPts[0], rightPts[0]],
+    rightPts.slice(1).reverse(),
+    [rightPts[0]]
+  )
+}
+
+/**
+ * Get the outline of a stroke.
+ * @param points The stroke's points.
+ * @param options The outline options.
+ * @returns
+ */
+export function getOutline(
+  points: StrokePoint[],
+  options: OutlineOptions
+): number[][] {
+  // The number of points in the array
+  const len = points.length
+
+  // We can't do anything with an empty array.
+  if (len === 0) return []
+
+  const state = createOutlineState(points, options)
+
+  /*
+    Find the outline's left and right points
+
+    Iterating through the points and populate the rightPts and leftPts arrays,
+    skipping the first and last points, which will get caps later on. A closed
+    stroke has no caps, so include its first point; its last point is a copy
+    of the first point.
+  */
+
+  if (isClosedLoop(points, options)) {
+    for (let i = 0; i < len - 1; i++) {
+      addOutlinePoint(state, points, i, options)
+    }
+
+    return getRingFromState(state, options)
+  }
+
+  for (let i = 1; i < len - 1; i++) {
+    addOutlinePoint(state, points, i, options)
+  }
+
+  return getOutlineFromState(state, points, options)
+}
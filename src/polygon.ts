@@ -0,0 +1,686 @@
+import * as vec from './vec'
+
+// Points closer than this are treated as duplicates
+const EPSILON = 1e-9
+
+// Intersections this close (along an edge) to an edge's end are snapped to it
+const T_EPSILON = 1e-9
+
+interface Edge {
+  a: number[]
+  b: number[]
+  polygon: number
+  splits: { t: number; point: number[] }[]
+}
+
+interface SubEdge {
+  a: number[]
+  b: number[]
+  polygon: number
+}
+
+/**
+ * A simple index of edges on a grid, used to find the edges that might touch
+ * a box (or a ray). Each edge is kept in the cells that it passes
+ * through, so that long edges do not fill the grid.
+ */
+class GridIndex<T extends { a: number[]; b: number[] }> {
+  private cells: number[][] = []
+  private stamps: number[]
+  private stamp = 0
+  private minX = Infinity
+  private minY = Infinity
+  private size: number
+  private cols: number
+  private rows: number
+
+  constructor(private edges: T[]) {
+    let maxX = -Infinity
+    let maxY = -Infinity
+
+    for (const { a, b } of edges) {
+      this.minX = Math.min(this.minX, a[0], b[0])
+      this.minY = Math.min(this.minY, a[1], b[1])
+      maxX = Math.max(maxX, a[0], b[0])
+      maxY = Math.max(maxY, a[1], b[1])
+    }
+
+    const width = maxX - this.minX
+    const height = maxY - this.minY
+    const count = Math.max(1, edges.length)
+
+    // Aim for about as many cells as there are edges.
+    this.size =
+      Math.sqrt((width * height) / count) ||
+      Math.max(width, height) / count ||
+      1
+
+    this.cols = Math.max(1, Math.min(count, Math.ceil(width / this.size)))
+    this.rows = Math.max(1, Math.min(count, Math.ceil(height / this.size)))
+
+    for (let i = 0; i < this.cols * this.rows; i++) {
+      this.cells.push([])
+    }
+
+    this.stamps = edges.map(() => 0)
+
+    edges.forEach(({ a, b }, i) => {
+      const r0 = this.getRow(Math.min(a[1], b[1]))
+      const r1 = this.getRow(Math.max(a[1], b[1]))
+
+      for (let r = r0; r <= r1; r++) {
+        // The part of the edge in this row, with a margin for rounding
+        const [x0, x1] = this.getSpanInRow(a, b, r)
+        const margin = this.size * 1e-6
+        const c0 = this.getCol(x0 - margin)
+        const c1 = this.getCol(x1 + margin)
+
+        for (let c = c0; c <= c1; c++) {
+          this.cells[r * this.cols + c].push(i)
+        }
+      }
+    })
+  }
+
+  private getCol(x: number) {
+    const i = Math.floor((x - this.minX) / this.size)
+    return Math.max(0, Math.min(this.cols - 1, i))
+  }
+
+  private getRow(y: number) {
+    const i = Math.floor((y - this.minY) / this.size)
+    return Math.max(0, Math.min(this.rows - 1, i))
+  }
+
+  private getSpanInRow(a: number[], b: number[], row: number) {
+    const dy = b[1] - a[1]
+
+    if (this.rows === 1 || dy === 0) {
+      return [Math.min(a[0], b[0]), Math.max(a[0], b[0])]
+    }
+
+    const top = this.minY + row * this.size
+    const t0 = Math.max(0, Math.min(1, (top - a[1]) / dy))
+    const t1 = Math.max(0, Math.min(1, (top + this.size - a[1]) / dy))
+    const xa = a[0] + (b[0] - a[0]) * t0
+    const xb = a[0] + (b[0] - a[0]) * t1
+
+    return [Math.min(xa, xb), Math.max(xa, xb)]
+  }
+
+  /**
+   * Get the edges that might cross a ray from a point to the nearest side of
+   * the grid, with the ray's axis (1 for a horizontal ray, 0 for a vertical
+   * ray) and direction (1 toward larger values, -1 toward smaller values).
+   * @param point
+   * @returns
+   */
+  queryRay(point: number[]) {
+    const [x, y] = point
+    const c = this.getCol(x)
+    const r = this.getRow(y)
+    const distances = [this.cols - 1 - c, c, this.rows - 1 - r, r]
+    const i = distances.indexOf(Math.min(...distances))
+
+    const axis = i < 2 ? 1 : 0
+    const side = i % 2 ? -1 : 1
+    const end = side * Infinity
+
+    const edges =
+      axis === 1
+        ? this.query(Math.min(x, end), y, Math.max(x, end), y)
+        : this.query(x, Math.min(y, end), x, Math.max(y, end))
+
+    return { edges, axis, side }
+  }
+
+  /**
+   * Get the edges in the cells that a box touches, each only once.
+   * @param x0
+   * @param y0
+   * @param x1
+   * @param y1
+   * @returns
+   */
+  query(x0: number, y0: number, x1: number, y1: number): T[] {
+    const results: T[] = []
+    const stamp = ++this.stamp
+
+    const c0 = this.getCol(x0)
+    const c1 = this.getCol(x1)
+    const r1 = this.getRow(y1)
+
+    for (let r = this.getRow(y0); r <= r1; r++) {
+      for (let c = c0; c <= c1; c++) {
+        for (const i of this.cells[r * this.cols + c]) {
+          if (this.stamps[i] === stamp) continue
+          this.stamps[i] = stamp
+          results.push(this.edges[i])
+        }
+      }
+    }
+
+    return results
+  }
+}
+
+/**
+ * A simple index of points, used to snap points that are (nearly) the same to
+ * a single point. Outlines that retrace their own edges often repeat a point
+ * with a tiny rounding error, and the two copies must be treated as one. Once
+ * snapped, points that are the same are the same array, and each has an id.
+ */
+class PointIndex {
+  private cells = new Map<number, number[][]>()
+  private ids = new Map<number[], number>()
+  private size = Math.sqrt(EPSILON)
+
+  getCount() {
+    return this.ids.size
+  }
+
+  getId(A: number[]) {
+    return this.ids.get(A) as number
+  }
+
+  // A cell's key. Different cells may share a key, which only means that
+  // their points are compared with each other.
+  private getCellKey(i: number, j: number) {
+    return (i * 73856093) ^ (j * 19349663)
+  }
+
+  snap(A: number[]) {
+    const i = Math.floor(A[0] / this.size)
+    const j = Math.floor(A[1] / this.size)
+
+    for (let di = -1; di <= 1; di++) {
+      for (let dj = -1; dj <= 1; dj++) {
+        const cell = this.cells.get(this.getCellKey(i + di, j + dj))
+        if (!cell) continue
+        for (const B of cell) {
+          if (vec.dist2(A, B) < EPSILON) return B
+        }
+      }
+    }
+
+    const key = this.getCellKey(i, j)
+    const cell = this.cells.get(key)
+    if (cell) {
+      cell.push(A)
+    } else {
+      this.cells.set(key, [A])
+    }
+
+    this.ids.set(A, this.ids.size)
+
+    return A
+  }
+}
+
+function cross(A: number[], B: number[]) {
+  return A[0] * B[1] - A[1] * B[0]
+}
+
+/**
+ * Remove consecutive (near) duplicate points from a ring, including a last
+ * point that repeats the first point.
+ * @param ring
+ * @returns
+ */
+function getCleanRing(ring: number[][]) {
+  const clean: number[][] = []
+
+  for (const pt of ring) {
+    if (!(isFinite(pt[0]) && isFinite(pt[1]))) continue
+    if (clean.length && vec.dist2(clean[clean.length - 1], pt) < EPSILON) {
+      continue
+    }
+    clean.push([pt[0], pt[1]])
+  }
+
+  while (
+    clean.length > 1 &&
+    vec.dist2(clean[0], clean[clean.length - 1]) < EPSILON
+  ) {
+    clean.pop()
+  }
+
+  return clean
+}
+
+/**
+ * Find the intersections between two edges and record them as splits.
+ * @param e1
+ * @param e2
+ */
+function addIntersections(e1: Edge, e2: Edge) {
+  const d1 = vec.sub(e1.b, e1.a)
+  const d2 = vec.sub(e2.b, e2.a)
+  const d = vec.sub(e2.a, e1.a)
+
+  const denom = cross(d1, d2)
+
+  // Parallel edges only intersect if they overlap.
+  if (Math.abs(denom) <= EPSILON * vec.len(d1) * vec.len(d2)) {
+    if (Math.abs(cross(d, d1)) > EPSILON * vec.len(d1) * (vec.len(d) || 1)) {
+      return
+    }
+
+    // Split each edge at the other edge's ends
+    const l1 = vec.len2(d1)
+    const l2 = vec.len2(d2)
+
+    for (const pt of [e2.a, e2.b]) {
+      const t = vec.dpr(vec.sub(pt, e1.a), d1) / l1
+      if (t > T_EPSILON && t < 1 - T_EPSILON) e1.splits.push({ t, point: pt })
+    }
+
+    for (const pt of [e1.a, e1.b]) {
+      const t = vec.dpr(vec.sub(pt, e2.a), d2) / l2
+      if (t > T_EPSILON && t < 1 - T_EPSILON) e2.splits.push({ t, point: pt })
+    }
+
+    return
+  }
+
+  const t = cross(d, d2) / denom
+  const u = cross(d, d1) / denom
+
+  if (t < -T_EPSILON || t > 1 + T_EPSILON) return
+  if (u < -T_EPSILON || u > 1 + T_EPSILON) return
+
+  // Use an existing point where the intersection is at the end of an edge
+  const point =
+    t <= T_EPSILON
+      ? e1.a
+      : t >= 1 - T_EPSILON
+      ? e1.b
+      : u <= T_EPSILON
+      ? e2.a
+      : u >= 1 - T_EPSILON
+      ? e2.b
+      : vec.add(e1.a, vec.mul(d1, t))
+
+  if (t > T_EPSILON && t < 1 - T_EPSILON) e1.splits.push({ t, point })
+  if (u > T_EPSILON && u < 1 - T_EPSILON) e2.splits.push({ t: u, point })
+}
+
+/**
+ * Get the winding number of a point for each polygon.
+ * @param point
+ * @param index
+ * @param count The number of polygons.
+ * @returns
+ */
+function getWindings(point: number[], index: GridIndex<Edge>, count: number) {
+  const windings: number[] = []
+
+  for (let i = 0; i < count; i++) {
+    windings.push(0)
+  }
+
+  // Count the edges that cross a ray from the point to the nearest side of
+  // the index. A vertical ray counts in mirrored space, and a ray to the left
+  // (or down) counts its crossings backward: each ring crosses the whole line
+  // through the point as often one way as the other.
+  const { edges, axis, side } = index.queryRay(point)
+  const k = axis === 1 ? side : -side
+  const v = point[axis]
+
+  for (const { a, b, polygon } of edges) {
+    if (a[axis] <= v) {
+      if (b[axis] > v && vec.isLeft(a, b, point) * k > 0) windings[polygon] += k
+    } else if (b[axis] <= v && vec.isLeft(a, b, point) * k < 0) {
+      windings[polygon] -= k
+    }
+  }
+
+  return windings
+}
+
+/**
+ * Get the distance from a point to a segment.
+ * @param point
+ * @param a
+ * @param b
+ * @returns
+ */
+function getDistanceToSegment(point: number[], a: number[], b: number[]) {
+  const d = vec.sub(b, a)
+  const l2 = vec.len2(d)
+  const t = l2
+    ? Math.max(0, Math.min(1, vec.dpr(vec.sub(point, a), d) / l2))
+    : 0
+  return vec.dist(point, vec.add(a, vec.mul(d, t)))
+}
+
+/**
+ * Remove the points of a ring that lie on a straight line between their
+ * neighbors.
+ * @param ring
+ * @returns
+ */
+function getRingWithoutCollinearPoints(ring: number[][]) {
+  return ring.filter((pt, i) => {
+    const d0 = vec.sub(pt, ring[(i + ring.length - 1) % ring.length])
+    const d1 = vec.sub(ring[(i + 1) % ring.length], pt)
+    return (
+      vec.dpr(d0, d1) <= 0 ||
+      Math.abs(cross(d0, d1)) > EPSILON * vec.len(d0) * vec.len(d1)
+    )
+  })
+}
+
+/**
+ * Get the signed area of a ring. Counter-clockwise rings (in a y-up space)
+ * have a positive area.
+ * @param ring
+ * @returns
+ */
+export function getSignedArea(ring: number[][]) {
+  let area = 0
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += cross(ring[j], ring[i])
+  }
+
+  return area / 2
+}
+
+/**
+ * Get whether a point is inside of a ring, using the non-zero winding rule.
+ * @param point
+ * @param ring
+ * @returns
+ */
+export function isPointInRing(point: number[], ring: number[][]) {
+  let w = 0
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[j]
+    const b = ring[i]
+    if (a[1] <= point[1]) {
+      if (b[1] > point[1] && vec.isLeft(a, b, point) > 0) w++
+    } else if (b[1] <= point[1] && vec.isLeft(a, b, point) < 0) {
+      w--
+    }
+  }
+
+  return w !== 0
+}
+
+/**
+ * Merge a set of polygons into simple polygons that do not overlap themselves
+ * or each other. Each polygon is an array of rings, filled using the non-zero
+ * winding rule; a point is in the result if it is inside of any polygon.
+ *
+ * Returns an array of polygons, each an array of rings: the first ring is the
+ * polygon's outer ring, and any others are its holes. Outer rings wind
+ * counter-clockwise (in a y-up space) and holes wind clockwise.
+ * @param polygons
+ * @returns
+ */
+export function getPolygonUnion(polygons: number[][][][]): number[][][][] {
+  /*
+    Collect the edges
+
+    Clean each ring and collect its edges, remembering which polygon each
+    edge belongs to.
+  */
+
+  const edges: Edge[] = []
+  const points = new PointIndex()
+
+  polygons.forEach((rings, polygon) => {
+    for (const ring of rings) {
+      const pts = getCleanRing(ring).map(pt => points.snap(pt))
+      if (pts.length < 3) continue
+
+      for (let i = 0; i < pts.length; i++) {
+        const a = pts[i]
+        const b = pts[(i + 1) % pts.length]
+        if (a === b) continue
+        edges.push({
+          a,
+          b,
+          polygon,
+          splits: [],
+        })
+      }
+    }
+  })
+
+  if (edges.length === 0) return []
+
+  /*
+    Split the edges at their intersections
+
+    Test each edge against the edges that share a cell of the grid with it,
+    and whose bounding boxes overlap its own, testing each pair only once.
+  */
+
+  const edgeIndex = new GridIndex(edges)
+  const tested = new Set<Edge>()
+
+  for (const e1 of edges) {
+    tested.add(e1)
+
+    const x0 = Math.min(e1.a[0], e1.b[0])
+    const x1 = Math.max(e1.a[0], e1.b[0])
+    const y0 = Math.min(e1.a[1], e1.b[1])
+    const y1 = Math.max(e1.a[1], e1.b[1])
+
+    for (const e2 of edgeIndex.query(x0, y0, x1, y1)) {
+      if (tested.has(e2)) continue
+      if (
+        Math.max(e2.a[0], e2.b[0]) < x0 ||
+        Math.min(e2.a[0], e2.b[0]) > x1 ||
+        Math.max(e2.a[1], e2.b[1]) < y0 ||
+        Math.min(e2.a[1], e2.b[1]) > y1
+      ) {
+        continue
+      }
+      addIntersections(e1, e2)
+    }
+  }
+
+  const subEdges: SubEdge[] = []
+
+  for (const { a, b, polygon, splits } of edges) {
+    splits.sort((s1, s2) => s1.t - s2.t)
+
+    let prev = a
+
+    for (const pt of splits.map(s => points.snap(s.point)).concat([b])) {
+      if (prev === pt) continue
+      subEdges.push({ a: prev, b: pt, polygon })
+      prev = pt
+    }
+  }
+
+  /*
+    Find the boundary edges
+
+    An edge is on the boundary of the result if the area on one side of the
+    edge is inside of the result and the area on the other side is not.
+    Edges that lie on top of each other (where an outline retraces itself)
+    are tested together: each one changes the winding number of its polygon
+    by one between its right and its left. Test a point just to the right of
+    the edges' middle, find the windings on the left from those changes, then
+    keep an edge so that the inside is always on its left.
+  */
+
+  const coincident = new Map<number, SubEdge[]>()
+
+  for (const subEdge of subEdges) {
+    const ia = points.getId(subEdge.a)
+    const ib = points.getId(subEdge.b)
+    const key = Math.min(ia, ib) * points.getCount() + Math.max(ia, ib)
+    const list = coincident.get(key)
+    if (list) {
+      list.push(subEdge)
+    } else {
+      coincident.set(key, [subEdge])
+    }
+  }
+
+  const subEdgeIndex = new GridIndex(subEdges)
+
+  const boundary: SubEdge[] = []
+
+  coincident.forEach(list => {
+    const subEdge = list[0]
+    const { a, b } = subEdge
+
+    // The change in each polygon's winding number from right to left
+    const changes = polygons.map(() => 0)
+
+    for (const other of list) {
+      changes[other.polygon] += other.a === a ? 1 : -1
+    }
+
+    if (changes.every(c => c === 0)) return
+
+    const m = vec.med(a, b)
+    const length = vec.dist(a, b)
+
+    // Keep the test point closer to the edge than any other edge
+    let offset = length * 0.01
+
+    for (const other of subEdgeIndex.query(
+      m[0] - offset,
+      m[1] - offset,
+      m[0] + offset,
+      m[1] + offset
+    )) {
+      if (list.includes(other)) continue
+      offset = Math.min(offset, getDistanceToSegment(m, other.a, other.b) / 2)
+    }
+
+    const n = vec.mul(vec.per(vec.uni(vec.sub(b, a))), offset)
+
+    // vec.per rotates clockwise (in a y-up space), so this point is on the right
+    const windings = getWindings(vec.add(m, n), edgeIndex, polygons.length)
+
+    const right = windings.some(w => w !== 0)
+    const left = windings.some((w, i) => w + changes[i] !== 0)
+
+    if (left === right) return
+
+    boundary.push(left ? subEdge : { ...subEdge, a: b, b: a })
+  })
+
+  /*
+    Link the boundary edges into rings
+
+    Starting from any unused edge, follow the edges from one vertex to the
+    next. Where several edges leave the same vertex, take the edge that
+    turns the most sharply to the left, which keeps each ring simple. When
+    the walk comes back to a vertex that it has already passed, the edges
+    since that vertex close a ring. A walk that gets stuck before closing
+    (which rounding errors can cause) leaves its remaining edges unused.
+  */
+
+  const outgoing = new Map<number[], SubEdge[]>()
+
+  for (const edge of boundary) {
+    const list = outgoing.get(edge.a)
+    if (list) {
+      list.push(edge)
+    } else {
+      outgoing.set(edge.a, [edge])
+    }
+  }
+
+  const used = new Set<SubEdge>()
+  const rings: number[][][] = []
+
+  for (const first of boundary) {
+    if (used.has(first)) continue
+
+    // The edges of the walk, and where each of its vertices is in the walk
+    const path: SubEdge[] = []
+    const indices = new Map<number[], number>()
+
+    let edge: SubEdge | undefined = first
+
+    while (edge) {
+      used.add(edge)
+      indices.set(edge.a, path.length)
+      path.push(edge)
+
+      const index = indices.get(edge.b)
+
+      if (index !== undefined) {
+        const loop = path.splice(index)
+
+        for (const { a } of loop) {
+          indices.delete(a)
+        }
+
+        const simple = getRingWithoutCollinearPoints(loop.map(e => e.a))
+
+        if (simple.length > 2 && getSignedArea(simple) !== 0) {
+          rings.push(simple)
+        }
+      }
+
+      const candidates: SubEdge[] = (outgoing.get(edge.b) || []).filter(
+        e => !used.has(e)
+      )
+
+      const back = vec.sub(edge.a, edge.b)
+      const angle = Math.atan2(back[1], back[0])
+
+      let next: SubEdge | undefined
+      let best = -Infinity
+
+      for (const candidate of candidates) {
+        const d = vec.sub(candidate.b, candidate.a)
+        let turn = Math.atan2(d[1], d[0]) - angle
+        while (turn <= 0) turn += Math.PI * 2
+        while (turn > Math.PI * 2) turn -= Math.PI * 2
+        if (turn > best) {
+          best = turn
+          next = candidate
+        }
+      }
+
+      edge = next
+    }
+  }
+
+  /*
+    Sort the rings into polygons
+
+    Outer rings wind counter-clockwise and holes wind clockwise. Place each
+    hole in the smallest outer ring that contains it.
+  */
+
+  const outers = rings
+    .filter(ring => getSignedArea(ring) > 0)
+    .sort((a, b) => getSignedArea(a) - getSignedArea(b))
+
+  const results = outers.map(ring => [ring])
+
+  for (const ring of rings) {
+    if (getSignedArea(ring) > 0) continue
+
+    const point = vec.med(ring[0], ring[1])
+
+    const i = outers.findIndex(outer => isPointInRing(point, outer))
+
+    if (i > -1) results[i].push(ring)
+  }
+
+  return results
+}
+
+/**
+ * ## flattenStroke
+ * @description Turn a stroke's outline points (as returned by `getStroke`) into simple polygons that do not overlap themselves. Each polygon is an array of rings: its outer ring, followed by any holes.
+ * @param stroke An array of outline points (as `[x, y]`).
+ */
+export function flattenStroke(stroke: number[][]): number[][][][] {
+  return getPolygonUnion([[stroke]])
+}
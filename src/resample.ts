@@ -0,0 +1,303 @@
+import { StrokeOptions } from './types'
+import { lerp, getInterpolatedPoint } from './utils'
+import * as vec from './vec'
+
+// The number of samples taken along a segment for each spacing of its length
+const SAMPLES_PER_SPACING = 4
+
+/**
+ * Get a point on a Catmull-Rom spline between `p1` and `p2`, using the
+ * Barry-Goldman pyramid. The spline's knots are spaced by the distance
+ * between its points raised to `alpha`: 0 for a uniform spline, or 0.5 for a
+ * centripetal spline (which does not overshoot or loop on uneven points).
+ * @param p0
+ * @param p1
+ * @param p2
+ * @param p3
+ * @param alpha
+ * @param u The position between `p1` and `p2`, from 0 to 1.
+ * @returns
+ */
+function getSplinePoint(
+  p0: number[],
+  p1: number[],
+  p2: number[],
+  p3: number[],
+  alpha: number,
+  u: number
+) {
+  const t1 = Math.pow(vec.dist(p0, p1), alpha)
+  const t2 = t1 + Math.pow(vec.dist(p1, p2), alpha)
+  const t3 = t2 + Math.pow(vec.dist(p2, p3), alpha)
+
+  const t = lerp(t1, t2, u)
+
+  const a1 = vec.lrp(p0, p1, t / t1)
+  const a2 = vec.lrp(p1, p2, (t - t1) / (t2 - t1))
+  const a3 = vec.lrp(p2, p3, (t - t2) / (t3 - t2))
+
+  const b1 = vec.lrp(a1, a2, t / t2)
+  const b2 = vec.lrp(a2, a3, (t - t1) / (t3 - t1))
+
+  return vec.lrp(b1, b2, (t - t1) / (t2 - t1))
+}
+
+/**
+ * The state of a line's resampling, which may be resumed as points are added
+ * to the line.
+ */
+export interface ResampleState {
+  // The line's points, without consecutive duplicates
+  unique: number[][]
+  // The points resampled so far
+  resampled: number[][]
+  // The last point sampled along the spline
+  prev: number[]
+  // The distance along the spline since the last resampled point
+  travelled: number
+  // The number of segments resampled so far
+  segments: number
+  spacing: number
+  alpha: number
+}
+
+/**
+ * Create the state for resampling a line.
+ * @param spacing The distance between the resampled points.
+ * @param alpha The spline's knot exponent (see `getSplinePoint`).
+ * @returns
+ */
+function createState(spacing: number, alpha: number): ResampleState {
+  return {
+    unique: [],
+    resampled: [],
+    prev: [],
+    travelled: 0,
+    segments: 0,
+    spacing,
+    alpha,
+  }
+}
+
+/**
+ * Get a point of a line by its index. Open lines continue straight past
+ * their ends.
+ * @param unique The line's points.
+ * @param i
+ * @param closed Whether the line is closed.
+ * @returns
+ */
+function getLinePoint(unique: number[][], i: number, closed: boolean) {
+  const len = unique.length
+
+  if (closed) return unique[(i + len) % len]
+  if (i < 0) return vec.sub(vec.mul(unique[0], 2), unique[1])
+  if (i >= len) return vec.sub(vec.mul(unique[len - 1], 2), unique[len - 2])
+  return unique[i]
+}
+
+/**
+ * Add the resampled points along one segment of the line's spline, between
+ * the point at an index and the next point.
+ * @param state The resampling state.
+ * @param i The index of the segment's first point.
+ * @param closed Whether the line is closed.
+ */
+function resampleSegment(state: ResampleState, i: number, closed: boolean) {
+  const { unique, resampled, spacing, alpha } = state
+
+  const p0 = getLinePoint(unique, i - 1, closed)
+  const p1 = getLinePoint(unique, i, closed)
+  const p2 = getLinePoint(unique, i + 1, closed)
+  const p3 = getLinePoint(unique, i + 2, closed)
+
+  const steps = Math.max(
+    1,
+    Math.ceil((vec.dist(p1, p2) / spacing) * SAMPLES_PER_SPACING)
+  )
+
+  let prevU = 0
+
+  for (let j = 1; j <= steps; j++) {
+    const u = j / steps
+    const curr = getSplinePoint(p0, p1, p2, p3, alpha, u)
+    const distance = vec.dist(state.prev, curr)
+
+    let start = 0
+
+    while (distance - start + state.travelled >= spacing) {
+      start += spacing - state.travelled
+      state.travelled = 0
+
+      const f = start / distance
+
+      resampled.push(
+        getInterpolatedPoint(
+          p1,
+          p2,
+          lerp(prevU, u, f),
+          vec.lrp(state.prev, curr, f)
+        )
+      )
+    }
+
+    state.travelled += distance - start
+    state.prev = curr
+    prevU = u
+  }
+}
+
+/**
+ * Finish the resampled points, once every segment of the line is resampled.
+ * @param state The resampling state.
+ * @param closed Whether the line is closed.
+ * @returns
+ */
+function finishResample(state: ResampleState, closed: boolean) {
+  const { unique, resampled, travelled, spacing } = state
+
+  // Don't leave a much shorter gap before the end of the line.
+  if (travelled < spacing / 2 && resampled.length > 1) resampled.pop()
+
+  if (!closed) resampled.push(unique[unique.length - 1])
+
+  return resampled
+}
+
+/**
+ * Fit a spline through a set of input points (as returned by
+ * `toPointsArray`) and get points at a uniform spacing along it. The first
+ * and last input points are kept. Points of a closed line are resampled all
+ * the way around, and do not repeat the first point at the end.
+ * @param pts The input points.
+ * @param spacing The distance between the resampled points.
+ * @param alpha The spline's knot exponent (see `getSplinePoint`).
+ * @param closed Whether the line is closed.
+ * @returns
+ */
+export function resamplePoints(
+  pts: number[][],
+  spacing: number,
+  alpha: number,
+  closed: boolean
+): number[][] {
+  const state = createState(spacing, alpha)
+  const { unique } = state
+
+  for (const pt of pts) {
+    if (unique.length && vec.isEqual(unique[unique.length - 1], pt)) continue
+    unique.push(pt)
+  }
+
+  if (closed && unique.length > 1) {
+    if (vec.isEqual(unique[0], unique[unique.length - 1])) unique.pop()
+  }
+
+  const len = unique.length
+
+  if (len < 2 || !(spacing > 0)) return unique
+
+  state.resampled.push(unique[0])
+  state.prev = unique[0]
+
+  for (let i = 0; i < (closed ? len : len - 1); i++) {
+    resampleSegment(state, i, closed)
+  }
+
+  return finishResample(state, closed)
+}
+
+/**
+ * Get the spacing and the spline's knot exponent for the `resample` option.
+ * The spacing is relative to the stroke's size.
+ * @param options The stroke options.
+ * @returns
+ */
+function getResampleParams(options: StrokeOptions) {
+  const { size = 8, resample = {} } = options
+
+  const { spline = 'centripetal', spacing = 0.25 } = resample
+
+  return { spacing: size * spacing, alpha: spline === 'centripetal' ? 0.5 : 0 }
+}
+
+/**
+ * Resample a stroke's input points (as returned by `toPointsArray`) if the
+ * `resample` option is set. The spacing is relative to the stroke's size.
+ * @param pts The input points.
+ * @param options The stroke options.
+ * @returns
+ */
+export function resampleInputPoints(
+  pts: number[][],
+  options: StrokeOptions
+): number[][] {
+  const { closed = false, resample } = options
+
+  if (!resample) return pts
+
+  const { spacing, alpha } = getResampleParams(options)
+
+  return resamplePoints(pts, spacing, alpha, closed)
+}
+
+/**
+ * Create the state for resampling an open stroke's input points one at a
+ * time (see `addResamplePoint`).
+ * @param options The stroke options.
+ * @returns
+ */
+export function createResampleState(options: StrokeOptions): ResampleState {
+  const { spacing, alpha } = getResampleParams(options)
+
+  return createState(spacing, alpha)
+}
+
+/**
+ * Add an input point (as returned by `toPointsArray`) to an open line's
+ * resampling state. A segment of the spline is settled once the point after
+ * its end is known, and its resampled points are kept in the state.
+ * @param state The resampling state.
+ * @param pt The input point.
+ */
+export function addResamplePoint(state: ResampleState, pt: number[]) {
+  const { unique } = state
+
+  if (unique.length && vec.isEqual(unique[unique.length - 1], pt)) return
+
+  unique.push(pt)
+
+  if (unique.length === 1) {
+    state.resampled.push(pt)
+    state.prev = pt
+  }
+
+  if (!(state.spacing > 0)) return
+
+  while (state.segments < unique.length - 2) {
+    resampleSegment(state, state.segments, false)
+    state.segments++
+  }
+}
+
+/**
+ * Get the resampled points of an open line, as returned by
+ * `resampleInputPoints` for the points added to its state so far. The
+ * state's settled points come first, and only the last of them may be
+ * dropped.
+ * @param state The resampling state.
+ * @returns
+ */
+export function getResampledPoints(state: ResampleState): number[][] {
+  const { unique } = state
+
+  if (unique.length < 2 || !(state.spacing > 0)) return unique.slice()
+
+  const end = { ...state, resampled: state.resampled.slice() }
+
+  for (let i = state.segments; i < unique.length - 1; i++) {
+    resampleSegment(end, i, false)
+  }
+
+  return finishResample(end, false)
+}
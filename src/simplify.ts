@@ -0,0 +1,113 @@
+import { clamp } from './utils'
+import * as vec from './vec'
+
+/**
+ * Get the square of the distance from a point to a line segment.
+ * @param P The point.
+ * @param A The segment's start.
+ * @param B The segment's end.
+ * @returns
+ */
+export function getSegmentDistance2(P: number[], A: number[], B: number[]) {
+  const l2 = vec.dist2(A, B)
+
+  if (l2 === 0) return vec.dist2(P, A)
+
+  const t = clamp(vec.dpr(vec.sub(P, A), vec.sub(B, A)) / l2, 0, 1)
+
+  return vec.dist2(P, vec.lrp(A, B, t))
+}
+
+/**
+ * Simplify a line with the Ramer-Douglas-Peucker algorithm, removing points
+ * that are within a tolerance of the simplified line. The first and last
+ * points are always kept, as are the points at any of the `keep` indices.
+ * @param pts The line's points.
+ * @param tolerance The greatest distance from a removed point to the line.
+ * @param keep The indices of points to keep.
+ * @returns
+ */
+export function simplifyLine(
+  pts: number[][],
+  tolerance: number,
+  keep: number[] = []
+): number[][] {
+  const len = pts.length
+
+  if (len < 3 || !(tolerance > 0)) return pts.slice()
+
+  const kept: boolean[] = []
+
+  for (let i = 0; i < len; i++) {
+    kept[i] = i === 0 || i === len - 1
+  }
+
+  for (const i of keep) {
+    if (i >= 0 && i < len) kept[i] = true
+  }
+
+  // The runs of points between kept points that are left to simplify
+  const runs: number[][] = []
+
+  for (let i = 1, start = 0; i < len; i++) {
+    if (kept[i]) {
+      runs.push([start, i])
+      start = i
+    }
+  }
+
+  const t2 = tolerance * tolerance
+
+  while (runs.length) {
+    const [a, b] = runs.pop()!
+
+    let max = 0
+    let index = -1
+
+    for (let i = a + 1; i < b; i++) {
+      const d = getSegmentDistance2(pts[i], pts[a], pts[b])
+
+      if (d > max) {
+        max = d
+        index = i
+      }
+    }
+
+    if (max > t2) {
+      kept[index] = true
+      runs.push([a, index], [index, b])
+    }
+  }
+
+  return pts.filter((_, i) => kept[i])
+}
+
+/**
+ * ## simplifyOutline
+ * @description Simplify a stroke's outline (as returned by `getStroke`), removing points that are within a tolerance of the simplified outline. Unlike the `simplify` option, this may also simplify the outline's caps and corners.
+ * @param points The outline's points.
+ * @param tolerance The greatest distance from a removed point to the simplified outline.
+ */
+export function simplifyOutline(
+  points: number[][],
+  tolerance: number
+): number[][] {
+  const len = points.length
+
+  if (len < 4) return points.slice()
+
+  // Split the outline at its first point and the point furthest from it.
+  let far = 0
+  let max = 0
+
+  for (let i = 1; i < len; i++) {
+    const d = vec.dist2(points[0], points[i])
+
+    if (d > max) {
+      max = d
+      far = i
+    }
+  }
+
+  return simplifyLine(points, tolerance, [far])
+}
@@ -0,0 +1,56 @@
+import { getCenterline, getOutlineOptions } from './outline'
+import { StrokeOptions, StrokePoint, StrokeStamp } from './types'
+import { lerp } from './utils'
+import * as vec from './vec'
+
+/**
+ * ## getStrokeStamps
+ * @description Get stamps at an even spacing along a stroke, for drawing the stroke with a raster brush. Each stamp has a point (as `[x, y]`), the radius that the stroke's outline has at that point (including any tapering), a rotation (in radians) in the direction of the line, a pressure, and a length along the line from 0 (at the start) to 1 (at the end).
+ * @param strokePoints The stroke's points (as returned by `getStrokePoints`).
+ * @param spacing The distance between stamps, relative to the stamp's diameter.
+ * @param options An (optional) object with options (see `getStroke`).
+ */
+export function getStrokeStamps(
+  strokePoints: StrokePoint[],
+  spacing = 0.25,
+  options: StrokeOptions = {} as StrokeOptions
+): StrokeStamp[] {
+  const outlineOptions = getOutlineOptions(options)
+
+  const centerline = getCenterline(strokePoints, outlineOptions)
+
+  const len = centerline.length
+
+  if (len === 0 || !(spacing > 0)) return []
+
+  const total = centerline[len - 1].runningLength
+
+  const stamps: StrokeStamp[] = []
+
+  for (let i = Math.min(1, len - 1), length = 0; length <= total; ) {
+    while (i < len - 1 && centerline[i].runningLength < length) i++
+
+    const A = centerline[Math.max(0, i - 1)]
+    const B = centerline[i]
+
+    const t = B.distance ? (length - A.runningLength) / B.distance : 0
+
+    const radius = lerp(A.radius, B.radius, t)
+
+    // A point's vector points back along the line.
+    const [x, y] = vec.neg(B.vector)
+
+    stamps.push({
+      point: vec.lrp(A.point, B.point, t),
+      radius,
+      rotation: Math.atan2(y, x),
+      pressure: lerp(A.pressure, B.pressure, t),
+      length: total ? length / total : 0,
+    })
+
+    // Tapered ends may have no radius, so keep a least spacing.
+    length += Math.max(radius * 2, outlineOptions.size / 10) * spacing
+  }
+
+  return stamps
+}
@@ -0,0 +1,314 @@
+import { SvgPathOptions, StrokePoint } from './types'
+import { flattenStroke } from './polygon'
+import * as vec from './vec'
+
+// Points closer than this are treated as duplicates
+const EPSILON = 1e-6
+
+export interface Segment {
+  command: 'M' | 'L' | 'Q' | 'C'
+  points: number[][]
+}
+
+function isNear(A: number[], B: number[]) {
+  return vec.dist2(A, B) < EPSILON * EPSILON
+}
+
+/**
+ * Remove consecutive (near) duplicate points, including a last point that
+ * repeats the first point of a closed path.
+ * @param pts
+ * @param closed
+ * @returns
+ */
+function getUniquePoints(pts: number[][], closed: boolean) {
+  const unique: number[][] = []
+
+  for (const pt of pts) {
+    if (unique.length && isNear(unique[unique.length - 1], pt)) continue
+    unique.push(pt)
+  }
+
+  if (closed && unique.length > 1) {
+    if (isNear(unique[0], unique[unique.length - 1])) unique.pop()
+  }
+
+  return unique
+}
+
+/**
+ * Get quadratic segments that pass through the midpoints between points,
+ * using the points themselves as control points.
+ * @param pts
+ * @param closed
+ * @returns
+ */
+function getQuadraticSegments(pts: number[][], closed: boolean) {
+  const len = pts.length
+  const segments: Segment[] = []
+
+  if (closed) {
+    segments.push({ command: 'M', points: [vec.med(pts[0], pts[1])] })
+
+    for (let i = 1; i <= len; i++) {
+      const a = pts[i % len]
+      const b = pts[(i + 1) % len]
+      segments.push({ command: 'Q', points: [a, vec.med(a, b)] })
+    }
+
+    return segments
+  }
+
+  segments.push({ command: 'M', points: [pts[0]] })
+
+  for (let i = 1; i < len - 1; i++) {
+    segments.push({
+      command: 'Q',
+      points: [
+        pts[i],
+        i === len - 2 ? pts[i + 1] : vec.med(pts[i], pts[i + 1]),
+      ],
+    })
+  }
+
+  return segments
+}
+
+/**
+ * Get cubic segments that pass through each point, using Catmull-Rom
+ * tangents for the control points.
+ * @param pts
+ * @param closed
+ * @returns
+ */
+function getCubicSegments(pts: number[][], closed: boolean) {
+  const len = pts.length
+  const segments: Segment[] = [{ command: 'M', points: [pts[0]] }]
+
+  const get = (i: number) =>
+    closed ? pts[(i + len) % len] : pts[Math.max(0, Math.min(len - 1, i))]
+
+  for (let i = 0; i < (closed ? len : len - 1); i++) {
+    const p0 = get(i - 1)
+    const p1 = get(i)
+    const p2 = get(i + 1)
+    const p3 = get(i + 2)
+
+    segments.push({
+      command: 'C',
+      points: [
+        vec.add(p1, vec.div(vec.sub(p2, p0), 6)),
+        vec.sub(p2, vec.div(vec.sub(p3, p1), 6)),
+        p2,
+      ],
+    })
+  }
+
+  return segments
+}
+
+/**
+ * Get a function that rounds a number to a number of decimal places. A
+ * precision outside of the range that `toFixed` accepts is clamped to it.
+ * @param precision
+ * @returns
+ */
+function getRound(precision: number | undefined) {
+  if (precision === undefined) return (n: number) => n
+
+  const digits = Math.max(0, Math.min(20, precision))
+
+  return (n: number) => +n.toFixed(digits)
+}
+
+/**
+ * Serialize a set of segments as SVG path data.
+ * @param segments
+ * @param precision
+ * @param relative
+ * @param closed
+ * @param start The current point before the path, which relative commands
+ * are measured from.
+ * @returns
+ */
+function getPathData(
+  segments: Segment[],
+  precision: number | undefined,
+  relative: boolean,
+  closed: boolean,
+  start = [0, 0]
+) {
+  const round = getRound(precision)
+
+  const d: (string | number)[] = []
+
+  let prevCommand = ''
+  let curr = start
+
+  for (const { command, points } of segments) {
+    const rounded = points.map(([x, y]) => [round(x), round(y)])
+    const cmd = relative ? command.toLowerCase() : command
+
+    // Implicit commands repeat the previous command (except for moves)
+    if (cmd !== prevCommand || command === 'M') d.push(cmd)
+    prevCommand = cmd
+
+    for (const [x, y] of rounded) {
+      if (relative) {
+        d.push(round(x - curr[0]), round(y - curr[1]))
+      } else {
+        d.push(x, y)
+      }
+    }
+
+    curr = rounded[rounded.length - 1]
+  }
+
+  if (closed) d.push(relative ? 'z' : 'Z')
+
+  return d.join(' ')
+}
+
+/**
+ * Get the segments of a smooth path through an array of points, and whether
+ * the path is closed. Paths that are too short to draw have no segments.
+ * @param pts
+ * @param options
+ * @param closedByDefault
+ * @returns
+ */
+export function getPathSegments(
+  pts: number[][],
+  options: SvgPathOptions,
+  closedByDefault: boolean
+): { segments: Segment[]; closed: boolean } {
+  const { curve = 'quadratic', closed = closedByDefault } = options
+
+  const unique = getUniquePoints(pts, closed)
+
+  const len = unique.length
+
+  if (len === 0) return { segments: [], closed }
+
+  // A closed shape needs at least three points to have any area.
+  if (closed && len < 3) return { segments: [], closed }
+
+  // An open path with a single point is drawn as a zero-length line (a dot).
+  if (len === 1) {
+    return {
+      segments: [
+        { command: 'M', points: [unique[0]] },
+        { command: 'L', points: [unique[0]] },
+      ],
+      closed: false,
+    }
+  }
+
+  // Two points make a straight line.
+  if (len === 2) {
+    return {
+      segments: [
+        { command: 'M', points: [unique[0]] },
+        { command: 'L', points: [unique[1]] },
+      ],
+      closed: false,
+    }
+  }
+
+  return {
+    segments:
+      curve === 'cubic'
+        ? getCubicSegments(unique, closed)
+        : getQuadraticSegments(unique, closed),
+    closed,
+  }
+}
+
+/**
+ * Turn an array of points into SVG path data.
+ * @param pts
+ * @param options
+ * @param closedByDefault
+ * @returns
+ */
+function getSvgPath(
+  pts: number[][],
+  options: SvgPathOptions,
+  closedByDefault: boolean
+) {
+  const { precision, relative = false } = options
+
+  const { segments, closed } = getPathSegments(pts, options, closedByDefault)
+
+  if (segments.length === 0) return ''
+
+  return getPathData(segments, precision, relative, closed)
+}
+
+/**
+ * ## getSvgPathFromStroke
+ * @description Turn the points returned by `getStroke` (or `getStrokeOutlinePoints`) into SVG path data.
+ * @param stroke An array of outline points (as `[x, y]`).
+ * @param options An (optional) object with options.
+ * @param options.curve Whether to smooth the path with `quadratic` (default) or `cubic` curves.
+ * @param options.precision The number of decimal places to round to, from 0 to 20.
+ * @param options.relative Whether to use relative commands.
+ * @param options.closed Whether to close the path. Defaults to true.
+ * @param options.flatten Whether to remove the places where the outline overlaps itself (see `flattenStroke`).
+ */
+export function getSvgPathFromStroke(
+  stroke: number[][],
+  options: SvgPathOptions = {} as SvgPathOptions
+): string {
+  if (options.flatten) {
+    const { precision, relative = false } = options
+    const round = getRound(precision)
+
+    const d: string[] = []
+
+    // After a ring is closed, the current point is back at the ring's start.
+    let start = [0, 0]
+
+    for (const polygon of flattenStroke(stroke)) {
+      for (const ring of polygon) {
+        const { segments } = getPathSegments(
+          ring,
+          { ...options, closed: true },
+          true
+        )
+
+        if (segments.length === 0) continue
+
+        d.push(getPathData(segments, precision, relative, true, start))
+
+        const [x, y] = segments[0].points[0]
+        start = [round(x), round(y)]
+      }
+    }
+
+    return d.join(' ')
+  }
+
+  return getSvgPath(stroke, options, true)
+}
+
+/**
+ * ## getSvgPathFromStrokePoints
+ * @description Turn the points returned by `getStrokePoints` into SVG path data along the stroke's center line.
+ * @param points An array of stroke points (or points as `[x, y]`).
+ * @param options An (optional) object with options.
+ * @param options.curve Whether to smooth the path with `quadratic` (default) or `cubic` curves.
+ * @param options.precision The number of decimal places to round to, from 0 to 20.
+ * @param options.relative Whether to use relative commands.
+ * @param options.closed Whether to close the path. Defaults to false.
+ */
+export function getSvgPathFromStrokePoints(
+  points: (StrokePoint | number[])[],
+  options: SvgPathOptions = {} as SvgPathOptions
+): string {
+  return getSvgPath(
+    points.map(pt => (Array.isArray(pt) ? pt : pt.point)),
+    options,
+    false
+  )
+}
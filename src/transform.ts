@@ -0,0 +1,84 @@
+import { getTiltFromAngles } from './nib'
+import { normalizeStrokeOptions } from './options'
+import { StrokeMatrix, StrokeOptions } from './types'
+import { toPointsArray } from './utils'
+import * as mat from './matrix'
+
+/**
+ * ## transformStrokePoints
+ * @description Move, scale, rotate or skew a stroke's input points with a matrix. Each point's pressure and time are kept, and its tilt turns with the matrix. To draw the transformed stroke as the same stroke drawn at its new scale, pass it options from `transformStrokeOptions`. Points are checked as `getStroke` checks them (see `sanitizePoints`).
+ * @param points The stroke's input points (as `[x, y, pressure, time, tiltX, tiltY]` or `{x, y, pressure, time, tiltX, tiltY}`).
+ * @param matrix The matrix (as `[a, b, c, d, e, f]`, in the same order as a canvas's `setTransform`, or as a `DOMMatrix`).
+ */
+export function transformStrokePoints<
+  T extends number[],
+  K extends { x: number; y: number; pressure?: number; time?: number }
+>(points: (T | K)[], matrix: StrokeMatrix): number[][] {
+  const M = mat.toMatrix(matrix)
+
+  return toPointsArray(points).map(pt => {
+    const [x, y] = mat.applyToPoint(M, pt)
+
+    const next = [x, y, pt[2]]
+
+    if (pt[3] !== undefined) next[3] = pt[3]
+
+    // Turn the pen's azimuth with the matrix, and keep its altitude.
+    if (pt[4] !== undefined) {
+      const [tiltX, tiltY] = getTiltFromAngles(
+        mat.applyToAngle(M, pt[4]),
+        pt[5]
+      )
+
+      next[4] = tiltX
+      next[5] = tiltY
+    }
+
+    return next
+  })
+}
+
+/**
+ * ## transformStrokeOptions
+ * @description Get the options for a stroke whose points have been transformed with a matrix (see `transformStrokePoints`), so that the stroke looks the same as it would if drawn at its new scale. Options measured in the stroke's units (`size`, the `start` and `end` tapers, `speed`, `dash`, `dashOffset` and `simplify`) are scaled by the matrix's uniform scale, and a fixed `nib` turns with the matrix. A matrix that stretches or skews the stroke scales these options by the scale of an area, the square root of its determinant.
+ * @param options An (optional) object with options (see `getStroke`).
+ * @param matrix The matrix (as `[a, b, c, d, e, f]`, or as a `DOMMatrix`).
+ */
+export function transformStrokeOptions(
+  options: StrokeOptions = {} as StrokeOptions,
+  matrix: StrokeMatrix
+): StrokeOptions {
+  const M = mat.toMatrix(matrix)
+  const s = mat.getScale(M)
+
+  // Use the defaults for options that are missing, but have a scale.
+  const { size, speed, nib } = normalizeStrokeOptions(options)
+
+  const { start, end, dash, dashOffset, simplify } = options
+
+  const result: StrokeOptions = {
+    ...options,
+    size: size * s,
+    speed: { min: speed.min * s, max: speed.max * s },
+  }
+
+  if (start && start.taper !== undefined) {
+    result.start = { ...start, taper: start.taper * s }
+  }
+
+  if (end && end.taper !== undefined) {
+    result.end = { ...end, taper: end.taper * s }
+  }
+
+  if (nib) {
+    result.nib = { ...nib, angle: mat.applyToAngle(M, nib.angle) }
+  }
+
+  if (Array.isArray(dash)) result.dash = dash.map(length => length * s)
+
+  if (dashOffset !== undefined) result.dashOffset = dashOffset * s
+
+  if (simplify !== undefined) result.simplify = simplify * s
+
+  return result
+}
@@ -1,19 +1,166 @@
+export type StrokeCap = 'round' | 'butt' | 'square' | 'arrow'
+
+export type StrokeJoin = 'round' | 'miter' | 'bevel'
+
+export type EasingName =
+  | 'linear'
+  | 'easeInQuad'
+  | 'easeOutQuad'
+  | 'easeInOutQuad'
+  | 'easeInCubic'
+  | 'easeOutCubic'
+  | 'easeInOutCubic'
+  | 'easeInQuart'
+  | 'easeOutQuart'
+  | 'easeInOutQuart'
+  | 'easeInQuint'
+  | 'easeOutQuint'
+  | 'easeInOutQuint'
+  | 'easeInSine'
+  | 'easeOutSine'
+  | 'easeInOutSine'
+  | 'easeInExpo'
+  | 'easeOutExpo'
+  | 'easeInOutExpo'
+
+export type StrokeEasing = ((t: number) => number) | EasingName | number[]
+
+export type StrokeBuffer = Float32Array | Float64Array
+
+export type SerializableEasing = EasingName | number[]
+
+export interface InputPoint {
+  x: number
+  y: number
+  pressure?: number
+  time?: number
+  tiltX?: number
+  tiltY?: number
+  azimuthAngle?: number
+  altitudeAngle?: number
+}
+
+export type StrokeMatrix =
+  | number[]
+  | { a: number; b: number; c: number; d: number; e: number; f: number }
+
 export interface StrokeOptions {
   size?: number
   thinning?: number
   smoothing?: number
   streamline?: number
-  easing?: (pressure: number) => number
+  easing?: StrokeEasing
   simulatePressure?: boolean
+  tilt?: number
+  nib?: {
+    angle?: number
+    aspect?: number
+  }
+  speed?: {
+    min?: number
+    max?: number
+  }
   start?: {
     taper?: number
-    easing?: (distance: number) => number
+    easing?: StrokeEasing
+    cap?: StrokeCap
   }
   end?: {
     taper?: number
-    easing?: (distance: number) => number
+    easing?: StrokeEasing
+    cap?: StrokeCap
+  }
+  resample?: {
+    spline?: 'catmull-rom' | 'centripetal'
+    spacing?: number
   }
+  simplify?: number
+  dash?: number[]
+  dashOffset?: number
+  join?: StrokeJoin
+  miterLimit?: number
+  joinSegments?: number
+  scale?: number
+  tolerance?: number
   last?: boolean
+  strict?: boolean
+  closed?: boolean
+}
+
+export interface NormalizedStrokeOptions extends StrokeOptions {
+  size: number
+  thinning: number
+  smoothing: number
+  streamline: number
+  easing: (pressure: number) => number
+  simulatePressure: boolean
+  tilt: number
+  nib?: {
+    angle: number
+    aspect: number
+  }
+  speed: {
+    min: number
+    max: number
+  }
+  start: {
+    taper: number
+    easing: (distance: number) => number
+    cap: StrokeCap
+  }
+  end: {
+    taper: number
+    easing: (distance: number) => number
+    cap: StrokeCap
+  }
+  resample?: {
+    spline: 'catmull-rom' | 'centripetal'
+    spacing: number
+  }
+  simplify: number
+  dash: number[]
+  dashOffset: number
+  join: StrokeJoin
+  miterLimit: number
+  joinSegments: number
+  scale?: number
+  tolerance: number
+  last: boolean
+  closed: boolean
+  strict: boolean
+}
+
+export interface SerializableStrokeOptions
+  extends Omit<StrokeOptions, 'easing' | 'start' | 'end'> {
+  easing?: SerializableEasing
+  start?: {
+    taper?: number
+    easing?: SerializableEasing
+    cap?: StrokeCap
+  }
+  end?: {
+    taper?: number
+    easing?: SerializableEasing
+    cap?: StrokeCap
+  }
+}
+
+export interface StrokeBatchItem {
+  points: (number[] | InputPoint)[] | StrokeBuffer
+  stride?: number
+  options?: SerializableStrokeOptions
+}
+
+export interface StrokeBatch {
+  strokes: StrokeBatchItem[]
+  options?: SerializableStrokeOptions
+  path?: SvgPathOptions
+}
+
+export interface StrokeBatchResult {
+  points: Float64Array
+  offsets: Uint32Array
+  paths?: string[]
 }
 
 export interface StrokePoint {
@@ -22,4 +169,54 @@ export interface StrokePoint {
   vector: number[]
   distance: number
   runningLength: number
+  time?: number
+  velocity?: number
+  azimuth?: number
+  altitude?: number
+}
+
+export interface StrokeCenterlinePoint extends StrokePoint {
+  radius: number
+}
+
+export interface StrokeStamp {
+  point: number[]
+  radius: number
+  rotation: number
+  pressure: number
+  length: number
+}
+
+export interface InputPointsReport {
+  dropped: number[]
+  repaired: number[]
+  clamped: number[]
+}
+
+export interface StrokeBounds {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+  width: number
+  height: number
+}
+
+export interface SvgPathOptions {
+  curve?: 'quadratic' | 'cubic'
+  precision?: number
+  relative?: boolean
+  closed?: boolean
+  flatten?: boolean
+}
+
+export interface CanvasPathOptions {
+  curve?: 'quadratic' | 'cubic'
+  closed?: boolean
+  flatten?: boolean
+}
+
+export interface RenderStyle extends CanvasPathOptions {
+  fill?: string | CanvasGradient | CanvasPattern
+  fillRule?: CanvasFillRule
 }
@@ -1,4 +1,11 @@
-import { isEqual } from './vec'
+import {
+  InputPoint,
+  InputPointsReport,
+  StrokeOptions,
+  StrokePoint,
+} from './types'
+import { getAnglesFromTilt, getTiltFromAngles } from './nib'
+import * as vec from './vec'
 
 export function lerp(y1: number, y2: number, mu: number) {
   return y1 * (1 - mu) + y2 * mu
@@ -9,29 +16,203 @@ export function clamp(n: number, a: number, b: number) {
 }
 
 /**
- * Convert an array of points to the correct format ([x, y, radius])
- * @param points
+ * Get a point between two input points (as returned by `toPointsArray`),
+ * interpolating their pressure, time and angles.
+ * @param A The first input point.
+ * @param B The second input point.
+ * @param t The position between the input points, from 0 to 1.
+ * @param point The point's position, if not between the input points.
  * @returns
  */
-export function toPointsArray<
-  T extends number[],
-  K extends { x: number; y: number; pressure?: number }
->(points: (T | K)[]): number[][] {
-  if (Array.isArray(points[0])) {
-    return (points as number[][]).map(([x, y, pressure = 0.5]) => [
+export function getInterpolatedPoint(
+  A: number[],
+  B: number[],
+  t: number,
+  point = vec.lrp(A, B, t)
+) {
+  const pt = [point[0], point[1]]
+
+  for (let i = 2; i < A.length; i++) {
+    let b = B[i]
+
+    if (A[i] === undefined || b === undefined) {
+      pt[i] = A[i]
+      continue
+    }
+
+    // Turn the shorter way between azimuth angles.
+    if (i === 4) {
+      if (b - A[i] > Math.PI) b -= Math.PI * 2
+      else if (A[i] - b > Math.PI) b += Math.PI * 2
+    }
+
+    pt[i] = lerp(A[i], b, t)
+  }
+
+  return pt
+}
+
+/**
+ * Get a point in the correct format ([x, y, pressure]), adding its time and
+ * its azimuth and altitude angles if they are defined.
+ * @param x
+ * @param y
+ * @param pressure
+ * @param time
+ * @param angles The pen's azimuth and altitude angles.
+ * @returns
+ */
+function toPoint(
+  x: number,
+  y: number,
+  pressure: number,
+  time?: number,
+  angles?: number[]
+) {
+  if (angles) return [x, y, pressure, time as number, angles[0], angles[1]]
+  if (time !== undefined) return [x, y, pressure, time]
+  return [x, y, pressure]
+}
+
+/**
+ * Get whether a value is a finite number.
+ * @param n
+ * @returns
+ */
+export function isNumber(n: unknown): n is number {
+  return typeof n === 'number' && isFinite(n)
+}
+
+/**
+ * Get the values of an input point, which may be an array
+ * ([x, y, pressure, time, tiltX, tiltY]) or an object. The values are not
+ * checked.
+ * @param point
+ * @returns The point's x, y, pressure and time, and its azimuth and altitude
+ * `angles` if it has a tilt.
+ */
+function getPointValues(
+  point: number[] | InputPoint
+): {
+  x: unknown
+  y: unknown
+  pressure: unknown
+  time: unknown
+  angles?: number[]
+} {
+  if (Array.isArray(point)) {
+    const [x, y, pressure, time, tiltX, tiltY] = point
+
+    return {
       x,
       y,
       pressure,
-    ])
-  } else {
-    return (points as {
-      x: number
-      y: number
-      pressure?: number
-    }[]).map(({ x, y, pressure = 0.5 }) => [x, y, pressure])
+      time,
+      angles:
+        tiltX === undefined || tiltY === undefined
+          ? undefined
+          : getAnglesFromTilt(tiltX, tiltY),
+    }
+  }
+
+  const {
+    x,
+    y,
+    pressure,
+    time,
+    tiltX,
+    tiltY,
+    azimuthAngle,
+    altitudeAngle,
+  } = point
+
+  return {
+    x,
+    y,
+    pressure,
+    time,
+    angles:
+      azimuthAngle !== undefined && altitudeAngle !== undefined
+        ? [azimuthAngle, altitudeAngle]
+        : tiltX !== undefined && tiltY !== undefined
+        ? getAnglesFromTilt(tiltX, tiltY)
+        : undefined,
   }
 }
 
+/**
+ * Convert an array of points to the correct format ([x, y, pressure], or
+ * [x, y, pressure, time, azimuth, altitude] for points with a time or tilt).
+ * Array points may include a tilt as [x, y, pressure, time, tiltX, tiltY];
+ * object points may include `tiltX` and `tiltY`, or `azimuthAngle` and
+ * `altitudeAngle`, as in a PointerEvent.
+ *
+ * Points without a finite x and y are dropped. A pressure that is not a
+ * finite number is replaced with the previous point's pressure, and a
+ * pressure outside of 0 to 1 is clamped. An invalid time or tilt is removed.
+ * @param points
+ * @param report An (optional) report to add the indices of dropped, repaired
+ * and clamped points to.
+ * @param prevPressure The pressure of the point before the first point.
+ * @returns
+ */
+export function toPointsArray<
+  T extends number[],
+  K extends { x: number; y: number; pressure?: number; time?: number }
+>(
+  points: (T | K)[],
+  report?: InputPointsReport,
+  prevPressure = 0.5
+): number[][] {
+  const pts: number[][] = []
+
+  for (let i = 0; i < points.length; i++) {
+    const { x, y, pressure = 0.5, time, angles } = getPointValues(points[i])
+
+    if (!isNumber(x) || !isNumber(y)) {
+      if (report) report.dropped.push(i)
+      continue
+    }
+
+    let p = prevPressure
+    let isRepaired = false
+
+    if (!isNumber(pressure)) {
+      isRepaired = true
+    } else if (pressure < 0 || pressure > 1) {
+      p = clamp(pressure, 0, 1)
+      if (report) report.clamped.push(i)
+    } else {
+      p = pressure
+    }
+
+    const t = time === undefined || isNumber(time) ? time : undefined
+    const a = angles && angles.every(isNumber) ? angles : undefined
+
+    if (t !== time || a !== angles) isRepaired = true
+
+    if (isRepaired && report) report.repaired.push(i)
+
+    pts.push(toPoint(x, y, p, t, a))
+
+    prevPressure = p
+  }
+
+  return pts
+}
+
+/**
+ * Get a point from `toPointsArray` in the format of an input point (as
+ * `[x, y, pressure, time, tiltX, tiltY]`), turning its azimuth and altitude
+ * angles back into a tilt.
+ * @param pt
+ * @returns
+ */
+export function toInputPoint(pt: number[]) {
+  if (pt[4] === undefined) return pt.slice()
+  return [pt[0], pt[1], pt[2], pt[3], ...getTiltFromAngles(pt[4], pt[5])]
+}
+
 /**
  * Compute a radius based on the pressure.
  * @param size
@@ -61,10 +242,168 @@ export function withoutDuplicates(pts: number[][]) {
   let prev: number[] | undefined = undefined
 
   for (let pt of pts) {
-    if (prev && isEqual(prev, pt)) continue
+    if (prev && vec.isEqual(prev, pt)) continue
     unique.push(pt)
     prev = pt
   }
 
   return pts
 }
+
+/**
+ * Get the streamline value for a set of options. Streamline is halved, and
+ * halved again when using real pressure.
+ * @param options
+ * @returns
+ */
+export function getStreamline(options: StrokeOptions) {
+  const { simulatePressure = true, streamline = 0.5 } = options
+  return simulatePressure ? streamline / 2 : streamline / 4
+}
+
+/**
+ * Get the first stroke point for a stroke.
+ * @param pt The first input point (see `toPointsArray`).
+ * @returns
+ */
+export function getFirstStrokePoint(pt: number[]): StrokePoint {
+  const strokePoint: StrokePoint = {
+    point: [pt[0], pt[1]],
+    pressure: pt[2],
+    vector: [0, 0],
+    distance: 0,
+    runningLength: 0,
+  }
+
+  if (pt[3] !== undefined) strokePoint.time = pt[3]
+
+  if (pt[4] !== undefined) {
+    strokePoint.azimuth = pt[4]
+    strokePoint.altitude = pt[5]
+  }
+
+  return strokePoint
+}
+
+/**
+ * Get the next stroke point by streamlining an input point toward the
+ * previous stroke point. Returns undefined if the new point would be a
+ * duplicate of the previous point.
+ * @param prev The previous stroke point.
+ * @param curr The current input point (see `toPointsArray`).
+ * @param streamline The (halved) streamline value.
+ * @returns
+ */
+export function getNextStrokePoint(
+  prev: StrokePoint,
+  curr: number[],
+  streamline: number
+): StrokePoint | undefined {
+  const point = vec.lrp(prev.point, curr, 1 - streamline)
+
+  if (vec.isEqual(prev.point, point)) return
+
+  const distance = vec.dist(point, prev.point)
+
+  const strokePoint: StrokePoint = {
+    point,
+    pressure: curr[2],
+    vector: vec.uni(vec.vec(point, prev.point)),
+    distance,
+    runningLength: prev.runningLength + distance,
+  }
+
+  /*
+    Calculate the velocity
+
+    If both points have a time, the velocity is the distance traveled per
+    unit of time. Points with the same time (such as coalesced events) keep
+    the previous point's velocity.
+  */
+
+  if (curr[4] !== undefined) {
+    strokePoint.azimuth = curr[4]
+    strokePoint.altitude = curr[5]
+  }
+
+  const time = curr[3]
+
+  if (time !== undefined) {
+    strokePoint.time = time
+
+    if (prev.time !== undefined) {
+      const elapsed = time - prev.time
+
+      strokePoint.velocity =
+        elapsed > 0 ? distance / elapsed : prev.velocity || 0
+    }
+  }
+
+  return strokePoint
+}
+
+/**
+ * Find the index from which the vectors at the end of a line should be
+ * aligned, or -1 if the line's vectors should not be aligned.
+ *
+ * Starting from the last point, work back until we've traveled more than
+ * half of the line's size (width), or until we find a hard turn.
+ * @param strokePoints
+ * @param size
+ * @returns
+ */
+export function getEndAlignmentIndex(
+  strokePoints: StrokePoint[],
+  size: number
+) {
+  const len = strokePoints.length
+
+  const totalLength = strokePoints[len - 1].runningLength
+
+  for (let i = len - 2; i > 1; i--) {
+    const { runningLength } = strokePoints[i]
+    const dpr = vec.dpr(strokePoints[i - 1].vector, strokePoints[i].vector)
+    if (totalLength - runningLength > size / 2 || dpr < 0.8) {
+      return i
+    }
+  }
+
+  return -1
+}
+
+/**
+ * Close a stroke's points by adding a copy of the first point to the end of
+ * the line, and by giving the first point the vector of this last segment.
+ * Lines with fewer than three points are returned unchanged.
+ * @param strokePoints
+ * @returns
+ */
+export function getClosedStrokePoints(strokePoints: StrokePoint[]) {
+  const len = strokePoints.length
+
+  if (len < 3) return strokePoints
+
+  const first = strokePoints[0]
+  const last = strokePoints[len - 1]
+
+  // If the line already ends at its first point, use its last vector.
+  if (vec.isEqual(first.point, last.point)) {
+    if (len < 4) return strokePoints
+    return [{ ...first, vector: last.vector }].concat(strokePoints.slice(1))
+  }
+
+  const distance = vec.dist(first.point, last.point)
+
+  const vector = vec.uni(vec.vec(first.point, last.point))
+
+  const closingPoint: StrokePoint = {
+    ...first,
+    vector,
+    distance,
+    runningLength: last.runningLength + distance,
+  }
+
+  if (last.velocity !== undefined) closingPoint.velocity = last.velocity
+
+  return [{ ...first, vector }].concat(strokePoints.slice(1), closingPoint)
+}
@@ -163,3 +163,116 @@ export function clockwise(p1: number[], pc: number[], p2: number[]) {
 export function isEqual(a: number[], b: number[]) {
   return a[0] === b[0] && a[1] === b[1]
 }
+
+/*
+  Mutating helpers
+
+  These helpers write their result into `out` (which may also be one of the
+  arguments) rather than returning a new array, for hot paths that should not
+  allocate. Each matches the arithmetic of the helper above that it mirrors.
+*/
+
+export type VecLike = number[] | Float32Array | Float64Array
+
+/**
+ * Set a vector's coordinates.
+ * @param out
+ * @param x
+ * @param y
+ */
+export function setInto<T extends VecLike>(out: T, x: number, y: number) {
+  out[0] = x
+  out[1] = y
+  return out
+}
+
+/**
+ * Add vectors, writing the result to `out`.
+ * @param out
+ * @param A
+ * @param B
+ */
+export function addInto<T extends VecLike>(out: T, A: VecLike, B: VecLike) {
+  return setInto(out, A[0] + B[0], A[1] + B[1])
+}
+
+/**
+ * Subtract vectors, writing the result to `out`.
+ * @param out
+ * @param A
+ * @param B
+ */
+export function subInto<T extends VecLike>(out: T, A: VecLike, B: VecLike) {
+  return setInto(out, A[0] - B[0], A[1] - B[1])
+}
+
+/**
+ * Vector multiplication by scalar, writing the result to `out`.
+ * @param out
+ * @param A
+ * @param n
+ */
+export function mulInto<T extends VecLike>(out: T, A: VecLike, n: number) {
+  return setInto(out, A[0] * n, A[1] * n)
+}
+
+/**
+ * Perpendicular rotation of a vector A, writing the result to `out`.
+ * @param out
+ * @param A
+ */
+export function perInto<T extends VecLike>(out: T, A: VecLike) {
+  return setInto(out, A[1], -A[0])
+}
+
+/**
+ * Get normalized / unit vector, writing the result to `out`.
+ * @param out
+ * @param A
+ */
+export function uniInto<T extends VecLike>(out: T, A: VecLike) {
+  const l = Math.hypot(A[0], A[1])
+  return setInto(out, A[0] / l, A[1] / l)
+}
+
+/**
+ * Interpolate vector A to B with a scalar t, writing the result to `out`.
+ * @param out
+ * @param A
+ * @param B
+ * @param t scalar
+ */
+export function lrpInto<T extends VecLike>(
+  out: T,
+  A: VecLike,
+  B: VecLike,
+  t: number
+) {
+  return setInto(out, A[0] + (B[0] - A[0]) * t, A[1] + (B[1] - A[1]) * t)
+}
+
+/**
+ * Rotate a vector around another vector by r (radians), writing the result
+ * to `out`.
+ * @param out
+ * @param A vector
+ * @param C center
+ * @param r rotation in radians
+ */
+export function rotAroundInto<T extends VecLike>(
+  out: T,
+  A: VecLike,
+  C: VecLike,
+  r: number
+) {
+  const s = Math.sin(r)
+  const c = Math.cos(r)
+
+  const px = A[0] - C[0]
+  const py = A[1] - C[1]
+
+  const nx = px * c - py * s
+  const ny = px * s + py * c
+
+  return setInto(out, nx + C[0], ny + C[1])
+}
@@ -0,0 +1,44 @@
+import { getStrokes } from './index'
+import { StrokeBatch, StrokeBatchResult } from './types'
+
+/*
+  Worker entry
+
+  Load this module in a Web Worker to compute strokes off of the main thread.
+  It is built on its own (as dist/worker.esm.js), with the library included.
+  Post a batch of strokes (see `getStrokes`) with an (optional) id, and the
+  worker posts back the result with the same id, transferring its buffers
+  rather than copying them. If the batch can't be drawn, the worker posts back
+  the id with the error's message instead.
+*/
+
+export type StrokeWorkerRequest = StrokeBatch & { id?: number }
+
+export type StrokeWorkerResponse =
+  | (StrokeBatchResult & { id?: number })
+  | { id?: number; error: string }
+
+interface StrokeWorkerScope {
+  onmessage: ((event: { data: StrokeWorkerRequest }) => void) | null
+  postMessage(message: StrokeWorkerResponse, transfer?: ArrayBuffer[]): void
+}
+
+declare const self: StrokeWorkerScope
+
+self.onmessage = event => {
+  const { id } = event.data
+
+  let result: StrokeBatchResult
+
+  try {
+    result = getStrokes(event.data)
+  } catch (e) {
+    self.postMessage({ id, error: e instanceof Error ? e.message : String(e) })
+    return
+  }
+
+  self.postMessage({ id, ...result }, [
+    result.points.buffer as ArrayBuffer,
+    result.offsets.buffer as ArrayBuffer,
+  ])
+}
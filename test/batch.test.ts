@@ -0,0 +1,209 @@
+import getStroke, { getStrokes, getSvgPathFromStroke } from '../src'
+import { StrokeWorkerRequest, StrokeWorkerResponse } from '../src/worker'
+
+const line: number[][] = []
+
+for (let i = 0; i <= 40; i++) {
+  line.push([i * 3, Math.sin(i / 4) * 20, 0.25 + (i % 10) / 20])
+}
+
+const wave = line.map(([x, y, pressure]) => [y, x, pressure])
+
+function getOutline(points: Float64Array, offsets: Uint32Array, i: number) {
+  const outline: number[][] = []
+
+  for (let j = offsets[i]; j < offsets[i + 1]; j++) {
+    outline.push([points[j * 2], points[j * 2 + 1]])
+  }
+
+  return outline
+}
+
+describe('Batches of strokes.', () => {
+  it('Matches getStroke for each stroke.', () => {
+    const options = { size: 12, easing: 'easeOutSine' as const }
+
+    const { points, offsets } = getStrokes({
+      strokes: [
+        { points: line },
+        { points: new Float32Array(([] as number[]).concat(...wave)) },
+        { points: line, options: { end: { taper: 40 } } },
+        { points: [] },
+      ],
+      options,
+    })
+
+    expect(offsets.length).toBe(5)
+    expect(points.length).toBe(offsets[4] * 2)
+
+    expect(getOutline(points, offsets, 0)).toEqual(getStroke(line, options))
+    expect(getOutline(points, offsets, 1)).toEqual(
+      getStroke(
+        wave.map(pt => pt.map(Math.fround)),
+        options
+      )
+    )
+    expect(getOutline(points, offsets, 2)).toEqual(
+      getStroke(line, { ...options, end: { taper: 40 } })
+    )
+    expect(getOutline(points, offsets, 3)).toEqual([])
+  })
+
+  it('Grows its buffer for long strokes.', () => {
+    const long: number[] = []
+
+    for (let i = 0; i < 2000; i++) {
+      long.push(i * 5, Math.cos(i / 3) * 50)
+    }
+
+    const { points, offsets } = getStrokes({
+      strokes: [
+        { points: line },
+        { points: new Float64Array(long), stride: 2 },
+      ],
+    })
+
+    const expected = getStroke(
+      long.reduce((acc, v, i) => {
+        if (i % 2 === 0) acc.push([v, long[i + 1]])
+        return acc
+      }, [] as number[][])
+    )
+
+    expect(expected.length * 2).toBeGreaterThan(4096)
+    expect(getOutline(points, offsets, 1)).toEqual(expected)
+  })
+
+  it('Takes the same point objects as getStroke.', () => {
+    const options = { size: 12, tilt: 1 }
+
+    const { points, offsets } = getStrokes({
+      strokes: [
+        {
+          points: [
+            { x: 0, y: 0, pressure: 0.5, time: 0, tiltX: 20, tiltY: -10 },
+            { x: 10, y: 5, pressure: 0.6, time: 16, tiltX: 30, tiltY: 0 },
+            { x: 20, y: 5, pressure: 0.7, time: 32, tiltX: 40, tiltY: 10 },
+          ],
+        },
+        {
+          points: [
+            { x: 0, y: 0, azimuthAngle: 0.5, altitudeAngle: 1 },
+            { x: 10, y: 5, azimuthAngle: 1, altitudeAngle: 0.8 },
+            { x: 20, y: 5, azimuthAngle: 1.5, altitudeAngle: 0.6 },
+          ],
+        },
+      ],
+      options,
+    })
+
+    expect(getOutline(points, offsets, 0)).toEqual(
+      getStroke(
+        [
+          [0, 0, 0.5, 0, 20, -10],
+          [10, 5, 0.6, 16, 30, 0],
+          [20, 5, 0.7, 32, 40, 10],
+        ],
+        options
+      )
+    )
+    expect(getOutline(points, offsets, 1)).not.toEqual(
+      getStroke(
+        [
+          [0, 0],
+          [10, 5],
+          [20, 5],
+        ],
+        options
+      )
+    )
+  })
+
+  it('Gets SVG path data.', () => {
+    const { paths } = getStrokes({
+      strokes: [{ points: line }, { points: wave }],
+      path: { precision: 2 },
+    })
+
+    expect(paths).toEqual([
+      getSvgPathFromStroke(getStroke(line), { precision: 2 }),
+      getSvgPathFromStroke(getStroke(wave), { precision: 2 }),
+    ])
+  })
+})
+
+describe('The stroke worker.', () => {
+  const scope = (global as unknown) as {
+    onmessage: ((event: { data: StrokeWorkerRequest }) => void) | null
+    postMessage: jest.Mock
+  }
+
+  const postMessage = scope.postMessage
+
+  beforeAll(() => {
+    scope.postMessage = jest.fn()
+    require('../src/worker')
+  })
+
+  afterAll(() => {
+    scope.onmessage = null
+    scope.postMessage = postMessage
+  })
+
+  it('Posts back the result, transferring its buffers.', () => {
+    scope.onmessage!({ data: { id: 7, strokes: [{ points: line }] } })
+
+    const [call] = scope.postMessage.mock.calls
+
+    const response = call[0] as StrokeWorkerResponse & {
+      points: Float64Array
+      offsets: Uint32Array
+    }
+
+    const transfer = call[1] as ArrayBuffer[]
+
+    expect(response.id).toBe(7)
+    expect(getOutline(response.points, response.offsets, 0)).toEqual(
+      getStroke(line)
+    )
+    expect(transfer).toHaveLength(2)
+    expect(transfer[0]).toBe(response.points.buffer)
+    expect(transfer[1]).toBe(response.offsets.buffer)
+  })
+
+  it('Posts back SVG path data for each stroke.', () => {
+    scope.onmessage!({
+      data: {
+        id: 9,
+        strokes: [{ points: line }, { points: wave }],
+        path: { precision: 2 },
+      },
+    })
+
+    const [response] = scope.postMessage.mock.calls[
+      scope.postMessage.mock.calls.length - 1
+    ]
+
+    expect(response.id).toBe(9)
+    expect(response.offsets).toHaveLength(3)
+    expect(response.paths).toEqual([
+      getSvgPathFromStroke(getStroke(line), { precision: 2 }),
+      getSvgPathFromStroke(getStroke(wave), { precision: 2 }),
+    ])
+  })
+
+  it('Posts back errors.', () => {
+    scope.onmessage!({
+      data: {
+        id: 8,
+        strokes: [{ points: line }],
+        options: { strict: true, size: -1 },
+      },
+    })
+
+    expect(scope.postMessage).toHaveBeenLastCalledWith({
+      id: 8,
+      error: expect.any(String),
+    })
+  })
+})
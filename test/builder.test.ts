@@ -0,0 +1,83 @@
+import getStroke, { StrokeBuilder, StrokeOptions } from '../src'
+
+const points: number[][] = []
+
+for (let i = 0; i < 200; i++) {
+  points.push([
+    i * 4 + Math.sin(i / 8) * 30,
+    Math.cos(i / 12) * 60,
+    0.5 + Math.sin(i / 10) * 0.4,
+  ])
+}
+
+function expectSameOutlines(options: StrokeOptions) {
+  const builder = new StrokeBuilder(options)
+
+  for (let i = 0; i < points.length; i++) {
+    builder.addPoint(points[i])
+    expect(builder.getOutline()).toEqual(
+      getStroke(points.slice(0, i + 1), options)
+    )
+  }
+}
+
+describe('The stroke builder.', () => {
+  it('Matches getStroke as points are added.', () => {
+    expectSameOutlines({})
+  })
+
+  it('Matches getStroke with tapers and real pressure.', () => {
+    expectSameOutlines({
+      size: 16,
+      simulatePressure: false,
+      start: { taper: 40 },
+      end: { taper: 80 },
+    })
+  })
+
+  it('Matches getStroke when complete.', () => {
+    const options = { end: { taper: 20 } }
+    const builder = new StrokeBuilder(options).addPoints(points).complete()
+
+    expect(builder.getOutline()).toEqual(
+      getStroke(points, { ...options, last: true })
+    )
+  })
+
+  it('Matches getStroke for closed strokes.', () => {
+    expectSameOutlines({ closed: true })
+  })
+
+  it('Matches getStroke for resampled strokes.', () => {
+    expectSameOutlines({ resample: { spacing: 0.5 } })
+  })
+
+  it('Matches getStroke for resampled strokes with tapers and repeats.', () => {
+    const options: StrokeOptions = {
+      resample: { spline: 'catmull-rom', spacing: 0.3 },
+      end: { taper: 40 },
+    }
+
+    const builder = new StrokeBuilder(options)
+    const repeated = points.slice(0, 60).reduce((acc, point, i) => {
+      acc.push(point)
+      if (i % 7 === 0) acc.push(point)
+      return acc
+    }, [] as number[][])
+
+    for (let i = 0; i < repeated.length; i++) {
+      builder.addPoint(repeated[i])
+      expect(builder.getOutline()).toEqual(
+        getStroke(repeated.slice(0, i + 1), options)
+      )
+    }
+  })
+
+  it('Works with point objects.', () => {
+    const builder = new StrokeBuilder().addPoints(
+      points.map(([x, y, pressure]) => ({ x, y, pressure }))
+    )
+
+    expect(builder.getOutline()).toEqual(getStroke(points))
+  })
+})
@@ -0,0 +1,134 @@
+import getStroke, {
+  getStrokePath2D,
+  getSvgPathFromStroke,
+  renderStroke,
+} from '../src'
+
+// A Path2D that records its commands as SVG path data
+class RecordingPath2D {
+  d: (string | number)[] = []
+
+  moveTo(x: number, y: number) {
+    this.d.push('M', x, y)
+  }
+
+  lineTo(x: number, y: number) {
+    this.d.push('L', x, y)
+  }
+
+  quadraticCurveTo(cpx: number, cpy: number, x: number, y: number) {
+    this.d.push('Q', cpx, cpy, x, y)
+  }
+
+  bezierCurveTo(
+    cp1x: number,
+    cp1y: number,
+    cp2x: number,
+    cp2y: number,
+    x: number,
+    y: number
+  ) {
+    this.d.push('C', cp1x, cp1y, cp2x, cp2y, x, y)
+  }
+
+  closePath() {
+    this.d.push('Z')
+  }
+}
+
+// The SVG path data, with every command written out
+function getExplicitPathData(d: string) {
+  const parts = d.split(' ')
+  const counts: Record<string, number> = { M: 2, L: 2, Q: 4, C: 6, Z: 0 }
+  const explicit: (string | number)[] = []
+
+  let command = ''
+
+  for (let i = 0; i < parts.length; ) {
+    if (parts[i] in counts) command = parts[i++]
+
+    explicit.push(command)
+
+    for (let j = 0; j < counts[command]; j++) explicit.push(+parts[i++])
+  }
+
+  return explicit
+}
+
+const inputPoints = [
+  [0, 0],
+  [10, 0],
+  [20, 0],
+  [25, 5],
+  [30, 5],
+]
+
+describe('Canvas paths.', () => {
+  const globals = (global as unknown) as { Path2D?: unknown }
+
+  beforeAll(() => {
+    globals.Path2D = RecordingPath2D
+  })
+
+  afterAll(() => {
+    delete globals.Path2D
+  })
+
+  it('Draws the same curves as the SVG path.', () => {
+    const outline = getStroke(inputPoints)
+
+    for (const curve of ['quadratic', 'cubic'] as const) {
+      const path = (getStrokePath2D(outline, {
+        curve,
+      }) as unknown) as RecordingPath2D
+
+      expect(path.d).toEqual(
+        getExplicitPathData(getSvgPathFromStroke(outline, { curve }))
+      )
+    }
+  })
+
+  it('Draws each ring of a flattened outline.', () => {
+    const outline = getStroke(inputPoints)
+
+    const path = (getStrokePath2D(outline, {
+      flatten: true,
+    }) as unknown) as RecordingPath2D
+
+    expect(path.d).toEqual(
+      getExplicitPathData(getSvgPathFromStroke(outline, { flatten: true }))
+    )
+  })
+
+  it('Fills a stroke on a context.', () => {
+    const calls: unknown[][] = []
+
+    const ctx = {
+      fillStyle: 'black',
+      save: () => calls.push(['save']),
+      restore: () => calls.push(['restore']),
+      fill(path: RecordingPath2D, fillRule: string) {
+        calls.push(['fill', path.d, fillRule, this.fillStyle])
+      },
+    }
+
+    renderStroke((ctx as unknown) as CanvasRenderingContext2D, inputPoints)
+    renderStroke(
+      (ctx as unknown) as CanvasRenderingContext2D,
+      inputPoints,
+      {},
+      { fill: 'red', fillRule: 'evenodd' }
+    )
+
+    const d = getExplicitPathData(getSvgPathFromStroke(getStroke(inputPoints)))
+
+    expect(calls).toEqual([
+      ['save'],
+      ['fill', d, 'nonzero', 'black'],
+      ['restore'],
+      ['save'],
+      ['fill', d, 'evenodd', 'red'],
+      ['restore'],
+    ])
+  })
+})
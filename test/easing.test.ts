@@ -0,0 +1,70 @@
+import getStroke, { cubicBezierEasing, easings } from '../src'
+
+const inputPoints = [
+  [0, 0, 0.2],
+  [10, 2, 0.4],
+  [20, 6, 0.6],
+  [30, 12, 0.8],
+  [40, 20, 1],
+  [50, 30, 0.5],
+]
+
+describe('Easings.', () => {
+  it('Eases along a cubic bezier curve.', () => {
+    const ease = cubicBezierEasing(0.25, 0.1, 0.25, 1)
+
+    expect(ease(0)).toBe(0)
+    expect(ease(1)).toBe(1)
+    expect(ease(0.5)).toBeCloseTo(0.8024, 4)
+
+    const linear = cubicBezierEasing(0, 0, 1, 1)
+
+    for (let t = 0; t <= 1; t += 0.1) {
+      expect(linear(t)).toBeCloseTo(t, 6)
+    }
+  })
+
+  it('Eases along flat curves.', () => {
+    const ease = cubicBezierEasing(1, 0, 0, 1)
+
+    for (let t = 0.05; t < 1; t += 0.05) {
+      expect(ease(t)).toBeCloseTo(1 - ease(1 - t), 5)
+    }
+  })
+
+  it('Starts and ends each named easing at 0 and 1.', () => {
+    for (const easing of Object.values(easings)) {
+      expect(easing(0)).toBeCloseTo(0)
+      expect(easing(1)).toBeCloseTo(1)
+    }
+  })
+
+  it('Accepts easings by name.', () => {
+    expect(
+      getStroke(inputPoints, {
+        easing: 'easeInQuad',
+        start: { taper: 20, easing: 'easeInSine' },
+        end: { taper: 20, easing: 'linear' },
+      })
+    ).toEqual(
+      getStroke(inputPoints, {
+        easing: easings.easeInQuad,
+        start: { taper: 20, easing: easings.easeInSine },
+        end: { taper: 20, easing: easings.linear },
+      })
+    )
+  })
+
+  it('Accepts easings as control points.', () => {
+    const options = JSON.parse(
+      JSON.stringify({ easing: [0.42, 0, 0.58, 1], end: { taper: 20 } })
+    )
+
+    expect(getStroke(inputPoints, options)).toEqual(
+      getStroke(inputPoints, {
+        easing: cubicBezierEasing(0.42, 0, 0.58, 1),
+        end: { taper: 20 },
+      })
+    )
+  })
+})
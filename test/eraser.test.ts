@@ -0,0 +1,106 @@
+import getStroke, { splitStrokeByEraser } from '../src'
+
+const line: number[][] = []
+
+for (let x = 0; x <= 100; x += 10) {
+  line.push([x, 0, x / 100])
+}
+
+describe('Erasing strokes.', () => {
+  it('Splits a stroke where the eraser crosses it.', () => {
+    const parts = splitStrokeByEraser(
+      line,
+      [
+        [50, -20],
+        [50, 20],
+      ],
+      5
+    )
+
+    expect(parts.length).toBe(2)
+    expect(parts[0][0]).toEqual([0, 0, 0])
+    expect(parts[0][parts[0].length - 1]).toEqual([45, 0, 0.45])
+    expect(parts[1][0]).toEqual([55, 0, 0.55])
+    expect(parts[1][parts[1].length - 1]).toEqual([100, 0, 1])
+  })
+
+  it('Places new ends on the edge of the eraser.', () => {
+    const eraser = [[33, 3]]
+    const parts = splitStrokeByEraser(line, eraser, 5)
+
+    expect(parts.length).toBe(2)
+
+    for (const [x, y, pressure] of [
+      parts[0][parts[0].length - 1],
+      parts[1][0],
+    ]) {
+      expect(Math.hypot(x - 33, y - 3)).toBeCloseTo(5)
+      expect(pressure).toBeCloseTo(x / 100)
+    }
+  })
+
+  it('Erases the ends of a stroke.', () => {
+    const parts = splitStrokeByEraser(line, [[0, 0]], 15)
+
+    expect(parts.length).toBe(1)
+    expect(parts[0][0][0]).toBeCloseTo(15)
+  })
+
+  it('Erases whole strokes.', () => {
+    expect(
+      splitStrokeByEraser(
+        line,
+        [
+          [-10, 0],
+          [200, 0],
+        ],
+        5
+      )
+    ).toEqual([])
+  })
+
+  it('Keeps strokes that the eraser misses.', () => {
+    expect(splitStrokeByEraser(line, [[50, 50]], 5)).toEqual([line])
+  })
+
+  it('Keeps times and works with point objects.', () => {
+    const parts = splitStrokeByEraser(
+      line.map(([x, y, pressure]) => ({ x, y, pressure, time: x * 2 })),
+      [{ x: 50, y: 0 }],
+      5
+    )
+
+    expect(parts[0][parts[0].length - 1]).toEqual([45, 0, 0.45, 90])
+  })
+
+  it('Returns parts that can be drawn.', () => {
+    const parts = splitStrokeByEraser(line, [[50, 0]], 5)
+
+    for (const part of parts) {
+      const stroke = getStroke(part, { end: { taper: 10 } })
+      expect(stroke.length).toBeGreaterThan(0)
+      expect(stroke.every(([x, y]) => isFinite(x) && isFinite(y))).toBe(true)
+    }
+  })
+
+  it('Keeps the tilt of tilted points.', () => {
+    const tilted = line.map(([x, y, pressure]) => [x, y, pressure, x, 40, 30])
+    const parts = splitStrokeByEraser(tilted, [[50, 0]], 5)
+
+    for (const pt of [parts[0][0], parts[0][parts[0].length - 1]]) {
+      expect(pt[4]).toBeCloseTo(40)
+      expect(pt[5]).toBeCloseTo(30)
+    }
+
+    // A part is drawn as tall as the original stroke
+    const getHeight = (stroke: number[][]) => {
+      const ys = stroke.map(([, y]) => y)
+      return Math.max(...ys) - Math.min(...ys)
+    }
+
+    expect(getHeight(getStroke(parts[1]))).toBeCloseTo(
+      getHeight(getStroke(tilted.slice(6))),
+      1
+    )
+  })
+})
@@ -0,0 +1,133 @@
+import getStroke, { getStrokeInto, StrokeOptions } from '../src'
+
+const line: number[][] = []
+
+for (let i = 0; i <= 60; i++) {
+  line.push([i * 3, Math.sin(i / 4) * 20, 0.25 + (i % 10) / 20, i * 16])
+}
+
+// A line that doubles back on itself, for round joins
+const corner = [
+  [0, 0, 0.5],
+  [20, 0, 0.5],
+  [40, 0, 0.5],
+  [60, 0, 0.5],
+  [30, 1, 0.5],
+  [0, 2, 0.5],
+]
+
+function toBuffer(points: number[][], stride: number) {
+  const input = new Float64Array(points.length * stride)
+
+  points.forEach((point, i) => {
+    for (let j = 0; j < stride; j++) input[i * stride + j] = point[j]
+  })
+
+  return input
+}
+
+function toPoints(output: Float64Array, count: number) {
+  const points: number[][] = []
+
+  for (let i = 0; i < count; i++) {
+    points.push([output[i * 2], output[i * 2 + 1]])
+  }
+
+  return points
+}
+
+describe('Drawing strokes into buffers.', () => {
+  const output = new Float64Array(4096)
+
+  it('Matches getStroke.', () => {
+    for (const options of [
+      {},
+      { size: 24, thinning: -0.5 },
+      { start: { taper: 40 }, end: { taper: 60 } },
+      { simulatePressure: false, smoothing: 0.2 },
+      { speed: { min: 0.1, max: 2 }, easing: 'easeInCubic' as const },
+    ]) {
+      for (const points of [line, corner, line.slice(0, 1)]) {
+        for (const stride of [2, 3, 4]) {
+          if (stride > points[0].length) continue
+
+          const count = getStrokeInto(
+            toBuffer(points, stride),
+            output,
+            options,
+            stride
+          )
+
+          expect(toPoints(output, count)).toEqual(
+            getStroke(
+              points.map(point => point.slice(0, stride)),
+              options
+            )
+          )
+        }
+      }
+    }
+  })
+
+  it('Checks input points as getStroke does.', () => {
+    const points = [
+      [0, 0, 2],
+      [NaN, 10, 0.5],
+      [10, 10, NaN],
+      [20, 5, -1],
+    ]
+
+    const count = getStrokeInto(toBuffer(points, 3), output)
+
+    expect(toPoints(output, count)).toEqual(getStroke(points))
+  })
+
+  it('Falls back for options that change the outline.', () => {
+    for (const options of [
+      { join: 'miter' as const },
+      { end: { cap: 'square' as const } },
+      { nib: { angle: 1, aspect: 3 } },
+      { simplify: 0.5 },
+    ]) {
+      const count = getStrokeInto(toBuffer(corner, 3), output, options)
+
+      expect(toPoints(output, count)).toEqual(getStroke(corner, options))
+    }
+  })
+
+  it('Follows changes to a reused options object.', () => {
+    const options: StrokeOptions = { size: 8, start: { taper: 0 } }
+    const input = toBuffer(line, 4)
+
+    for (const change of [
+      () => (options.size = 20),
+      () => (options.start!.taper = 30),
+      () => (options.join = 'miter'),
+      () => delete options.join,
+    ]) {
+      change()
+
+      const count = getStrokeInto(input, output, options, 4)
+
+      expect(toPoints(output, count)).toEqual(getStroke(line, options))
+    }
+  })
+
+  it('Writes only the points that fit.', () => {
+    const stroke = getStroke(line)
+    const small = new Float32Array(21)
+
+    expect(getStrokeInto(toBuffer(line, 4), small, {}, 4)).toBe(stroke.length)
+    expect(Array.from(small.subarray(0, 20))).toEqual(
+      stroke
+        .slice(0, 10)
+        .reduce((acc, point) => acc.concat(point), [] as number[])
+        .map(Math.fround)
+    )
+    expect(small[20]).toBe(0)
+  })
+
+  it('Returns no points for no input points.', () => {
+    expect(getStrokeInto(new Float64Array(0), output)).toBe(0)
+  })
+})
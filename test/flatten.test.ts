@@ -0,0 +1,278 @@
+import getStroke, {
+  flattenStroke,
+  getStrokesUnion,
+  StrokeOptions,
+} from '../src'
+
+function getWinding(point: number[], ring: number[][]) {
+  let w = 0
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [ax, ay] = ring[j]
+    const [bx, by] = ring[i]
+    const side = (bx - ax) * (point[1] - ay) - (point[0] - ax) * (by - ay)
+    if (ay <= point[1]) {
+      if (by > point[1] && side > 0) w++
+    } else if (by <= point[1] && side < 0) {
+      w--
+    }
+  }
+
+  return w
+}
+
+function getArea(ring: number[][]) {
+  let area = 0
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += ring[j][0] * ring[i][1] - ring[j][1] * ring[i][0]
+  }
+
+  return area / 2
+}
+
+// Estimate the area inside of any of the outlines by counting points on a grid.
+function getGridArea(strokes: number[][][], step = 0.5) {
+  const points = strokes.reduce((acc, stroke) => acc.concat(stroke), [])
+  const xs = points.map(([x]) => x)
+  const ys = points.map(([, y]) => y)
+  let count = 0
+
+  for (let x = Math.min(...xs) + step / 2; x < Math.max(...xs); x += step) {
+    for (let y = Math.min(...ys) + step / 2; y < Math.max(...ys); y += step) {
+      if (strokes.some(stroke => getWinding([x, y], stroke) !== 0)) count++
+    }
+  }
+
+  return count * step * step
+}
+
+function getTotalArea(polygons: number[][][][]) {
+  return polygons.reduce(
+    (sum, rings) => rings.reduce((sum, ring) => sum + getArea(ring), sum),
+    0
+  )
+}
+
+// A stroke that turns sharply back on itself, so that its outline retraces
+// its own edges.
+function getJitteryLine(seed: number, length = 30) {
+  const points: number[][] = []
+  let x = 0
+  let y = 0
+
+  const random = () => {
+    seed = (seed * 16807) % 2147483647
+    return seed / 2147483647
+  }
+
+  for (let i = 0; i < length; i++) {
+    x += (random() - 0.5) * 30
+    y += (random() - 0.5) * 30
+    points.push([x, y, random()])
+  }
+
+  return points
+}
+
+describe('Flattening strokes.', () => {
+  it('Splits a self-intersecting outline into simple polygons.', () => {
+    const polygons = flattenStroke([
+      [0, 0],
+      [10, 10],
+      [10, 0],
+      [0, 10],
+    ])
+
+    expect(polygons).toHaveLength(2)
+    expect(polygons.map(([ring]) => getArea(ring))).toEqual([25, 25])
+  })
+
+  it('Keeps holes, wound the other way.', () => {
+    const loop: number[][] = []
+
+    for (let i = 0; i <= 60; i++) {
+      const t = (i / 50) * Math.PI * 2
+      loop.push([Math.cos(t) * 100, Math.sin(t) * 100])
+    }
+
+    const stroke = getStroke(loop, { size: 20 })
+    const polygons = flattenStroke(stroke)
+
+    expect(polygons).toHaveLength(1)
+
+    const [outer, ...holes] = polygons[0]
+
+    expect(getArea(outer)).toBeGreaterThan(0)
+    expect(holes.length).toBeGreaterThan(0)
+    expect(holes.every(hole => getArea(hole) < 0)).toBe(true)
+
+    // The flattened shape covers the same points as the original outline
+    for (let x = -120; x <= 120; x += 7) {
+      for (let y = -120; y <= 120; y += 7) {
+        const inOriginal = getWinding([x, y], stroke) !== 0
+        const inFlattened =
+          polygons[0].reduce((w, ring) => w + getWinding([x, y], ring), 0) !== 0
+        expect(inFlattened).toBe(inOriginal)
+      }
+    }
+  })
+})
+
+describe('Flattening strokes that retrace themselves.', () => {
+  it('Keeps the area of a stroke with sharp turns.', () => {
+    const points: number[][] = []
+
+    for (let i = 0; i < 8; i++) {
+      points.push([50 * Math.sin(i / 3), i * 2])
+    }
+
+    const stroke = getStroke(points, { size: 20 })
+    const polygons = flattenStroke(stroke)
+
+    expect(polygons).toHaveLength(1)
+    expect(getTotalArea(polygons)).toBeCloseTo(getGridArea([stroke]), -1)
+  })
+
+  it('Keeps the area of jittery strokes.', () => {
+    const sets: StrokeOptions[] = [
+      { size: 16 },
+      { size: 20, thinning: 0.9 },
+      { size: 12, start: { cap: 'square' }, end: { taper: 30 } },
+      { size: 14, nib: { angle: 0.5, aspect: 3 } },
+    ]
+
+    for (let seed = 1; seed <= 8; seed++) {
+      const stroke = getStroke(getJitteryLine(seed), sets[seed % sets.length])
+      const polygons = flattenStroke(stroke)
+      const expected = getGridArea([stroke])
+
+      expect(Math.abs(getTotalArea(polygons) - expected)).toBeLessThan(
+        expected * 0.01
+      )
+
+      for (const [outer, ...holes] of polygons) {
+        expect(getArea(outer)).toBeGreaterThan(0)
+        expect(holes.every(hole => getArea(hole) < 0)).toBe(true)
+      }
+    }
+  })
+})
+
+describe('Flattening long strokes.', () => {
+  it('Flattens a long scribble that crosses itself often.', () => {
+    const points: number[][] = []
+    let seed = 5
+    let x = 0
+    let y = 0
+
+    const random = () => {
+      seed = (seed * 16807) % 2147483647
+      return seed / 2147483647
+    }
+
+    for (let i = 0; i < 3000; i++) {
+      x += (random() - 0.5) * 20
+      y += (random() - 0.5) * 20
+      points.push([x, y, random()])
+    }
+
+    const stroke = getStroke(points, { size: 16 })
+    const t = Date.now()
+    const polygons = flattenStroke(stroke)
+
+    // Before the edges were indexed, this took about 20 seconds in Node.
+    expect(Date.now() - t).toBeLessThan(20000)
+    expect(polygons.length).toBeGreaterThan(0)
+    expect(getTotalArea(polygons)).toBeGreaterThan(0)
+  }, 60000)
+})
+
+describe('Merging strokes.', () => {
+  const horizontal: number[][] = []
+  const vertical: number[][] = []
+
+  for (let i = 0; i <= 100; i += 5) {
+    horizontal.push([i, 50])
+    vertical.push([50, i])
+  }
+
+  it('Merges crossing strokes into one polygon.', () => {
+    const polygons = getStrokesUnion([
+      { points: horizontal },
+      { points: vertical },
+    ])
+
+    expect(polygons).toHaveLength(1)
+    expect(polygons[0]).toHaveLength(1)
+
+    const strokes = [getStroke(horizontal), getStroke(vertical)]
+
+    for (let x = -10; x <= 110; x += 3) {
+      for (let y = 40; y <= 60; y += 1) {
+        const inStrokes = strokes.some(s => getWinding([x, y], s) !== 0)
+        const inUnion = getWinding([x, y], polygons[0][0]) !== 0
+        expect(inUnion).toBe(inStrokes)
+      }
+    }
+  })
+
+  it('Keeps separate strokes apart.', () => {
+    const polygons = getStrokesUnion([
+      { points: horizontal },
+      { points: horizontal.map(([x, y]) => [x + 500, y]) },
+    ])
+
+    expect(polygons).toHaveLength(2)
+  })
+
+  it('Uses options for each stroke.', () => {
+    const polygons = getStrokesUnion(
+      [{ points: horizontal }, { points: vertical, options: { size: 30 } }],
+      { size: 10, thinning: 0 }
+    )
+
+    const [outer] = polygons[0]
+
+    // Away from the horizontal stroke, the union is as wide as the vertical one
+    expect(getWinding([62, 20], outer)).not.toBe(0)
+    expect(getWinding([68, 20], outer)).toBe(0)
+    expect(getArea(outer)).toBeGreaterThan(0)
+  })
+
+  it('Keeps the holes of closed strokes.', () => {
+    const circle: number[][] = []
+
+    for (let i = 0; i < 60; i++) {
+      const t = (i / 60) * Math.PI * 2
+      circle.push([Math.cos(t) * 50, Math.sin(t) * 50])
+    }
+
+    const polygons = getStrokesUnion([
+      { points: circle, options: { closed: true } },
+    ])
+
+    expect(polygons).toHaveLength(1)
+    expect(polygons[0]).toHaveLength(2)
+    expect(getArea(polygons[0][1])).toBeLessThan(0)
+  })
+
+  it('Keeps the area of jittery strokes.', () => {
+    const strokes = [1, 2, 3].map(seed => ({
+      points: getJitteryLine(seed, 20),
+    }))
+
+    const polygons = getStrokesUnion(strokes, { size: 16 })
+    const expected = getGridArea(
+      strokes.map(({ points }) => getStroke(points, { size: 16 }))
+    )
+
+    expect(Math.abs(getTotalArea(polygons) - expected)).toBeLessThan(
+      expected * 0.01
+    )
+  })
+
+  it('Returns no polygons for no strokes.', () => {
+    expect(getStrokesUnion([])).toEqual([])
+  })
+})
@@ -0,0 +1,92 @@
+import getStroke, {
+  getStrokePoints,
+  getStrokeBounds,
+  isPointInStroke,
+  getDistanceToStroke,
+} from '../src'
+
+const line: number[][] = []
+
+for (let x = 0; x <= 100; x += 5) {
+  line.push([x, 0])
+}
+
+const options = { size: 16, thinning: 0, streamline: 0 }
+
+describe('Stroke bounds.', () => {
+  it('Gets the bounds of an outline.', () => {
+    expect(
+      getStrokeBounds([
+        [10, 5],
+        [-2, 8],
+        [4, -6],
+      ])
+    ).toEqual({ minX: -2, minY: -6, maxX: 10, maxY: 8, width: 12, height: 14 })
+  })
+
+  it('Includes the caps.', () => {
+    const bounds = getStrokeBounds(getStroke(line, options))
+
+    expect(bounds.minX).toBeCloseTo(-8, 0)
+    expect(bounds.maxX).toBeCloseTo(108, 0)
+    expect(bounds.height).toBeCloseTo(16, 0)
+  })
+
+  it('Gets empty bounds for no points.', () => {
+    expect(getStrokeBounds([]).width).toBe(0)
+  })
+})
+
+describe('Hit-testing strokes.', () => {
+  const outline = getStroke(line, options)
+
+  it('Finds points inside of the stroke.', () => {
+    expect(isPointInStroke([50, 0], outline)).toBe(true)
+    expect(isPointInStroke([50, 7], outline)).toBe(true)
+    expect(isPointInStroke([-7, 0], outline)).toBe(true)
+  })
+
+  it('Finds points outside of the stroke.', () => {
+    expect(isPointInStroke([50, 9], outline)).toBe(false)
+    expect(isPointInStroke([-9, 0], outline)).toBe(false)
+    expect(isPointInStroke([50, 0], [])).toBe(false)
+  })
+})
+
+describe('Distance to strokes.', () => {
+  const strokePoints = getStrokePoints(line, options)
+
+  it('Measures from the edge of the stroke.', () => {
+    expect(getDistanceToStroke([50, 20], strokePoints, options)).toBeCloseTo(12)
+    expect(getDistanceToStroke([-18, 0], strokePoints, options)).toBeCloseTo(10)
+  })
+
+  it('Is negative inside of the stroke.', () => {
+    expect(getDistanceToStroke([50, 0], strokePoints, options)).toBeCloseTo(-8)
+  })
+
+  it('Agrees with hit-testing.', () => {
+    const pressureOptions = { size: 16, streamline: 0 }
+    const outline = getStroke(line, pressureOptions)
+    const points = getStrokePoints(line, pressureOptions)
+
+    for (let x = -10; x <= 110; x += 7) {
+      for (let y = -10; y <= 10; y += 3) {
+        const distance = getDistanceToStroke([x, y], points, pressureOptions)
+
+        if (Math.abs(distance) > 0.5) {
+          expect(isPointInStroke([x, y], outline)).toBe(distance < 0)
+        }
+      }
+    }
+  })
+
+  it('Uses the radius at each point.', () => {
+    const tapered = { ...options, end: { taper: 100 } }
+    const points = getStrokePoints(line, tapered)
+
+    expect(getDistanceToStroke([90, 6], points, tapered)).toBeGreaterThan(
+      getDistanceToStroke([10, 6], points, tapered)
+    )
+  })
+})
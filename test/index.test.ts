@@ -1,4 +1,11 @@
-import getStroke, { getStrokePoints } from '../src'
+import getStroke, {
+  getStrokePoints,
+  getStrokeCenterline,
+  flattenStroke,
+  simplifyOutline,
+  getDashedStroke,
+  transformStrokeOptions,
+} from '../src'
 
 const points = [
   [-0.20210597826090293, 0.08050271739131176],
@@ -187,3 +194,627 @@ describe('The algorithm.', () => {
     )
   })
 })
+
+describe('The centerline.', () => {
+  it('Returns the stroke points with their radii.', () => {
+    const centerline = getStrokeCenterline(points)
+    const strokePoints = getStrokePoints(points)
+
+    expect(centerline.map(({ point }) => point)).toEqual(
+      strokePoints.map(({ point }) => point)
+    )
+
+    expect(
+      centerline.every(({ radius }) => radius > 0 && radius <= 4)
+    ).toBeTruthy()
+  })
+
+  it('Uses half the size when not thinning.', () => {
+    const centerline = getStrokeCenterline(points, { size: 10, thinning: 0 })
+    expect(centerline.every(({ radius }) => radius === 5)).toBeTruthy()
+  })
+
+  it('Applies tapering.', () => {
+    const centerline = getStrokeCenterline(points, {
+      start: { taper: 100 },
+      end: { taper: 100 },
+    })
+
+    const first = centerline[0]
+    const last = centerline[centerline.length - 1]
+    const middle = centerline[Math.floor(centerline.length / 2)]
+
+    expect(first.radius).toBe(0)
+    expect(last.radius).toBe(0)
+    expect(middle.radius).toBeGreaterThan(0)
+  })
+})
+
+describe('Closed strokes.', () => {
+  const circle: number[][] = []
+
+  for (let i = 0; i < 60; i++) {
+    const t = (i / 60) * Math.PI * 2
+    circle.push([Math.cos(t) * 100, Math.sin(t) * 100])
+  }
+
+  it('Joins the last point to the first point.', () => {
+    const strokePoints = getStrokePoints(circle, { closed: true })
+    const first = strokePoints[0]
+    const last = strokePoints[strokePoints.length - 1]
+
+    expect(last.point).toEqual(first.point)
+    expect(first.vector).toEqual(last.vector)
+  })
+
+  it('Draws a ring with a hole and no caps.', () => {
+    const stroke = getStroke(circle, { size: 20, thinning: 0, closed: true })
+    const polygons = flattenStroke(stroke)
+
+    expect(polygons).toHaveLength(1)
+    expect(polygons[0]).toHaveLength(2)
+
+    const radii = stroke.map(([x, y]) => Math.hypot(x, y))
+
+    expect(Math.max(...radii) - Math.min(...radii)).toBeLessThan(22)
+  })
+
+  it('Draws short strokes as open strokes.', () => {
+    expect(getStroke(circle.slice(0, 2), { closed: true })).toEqual(
+      getStroke(circle.slice(0, 2))
+    )
+  })
+})
+
+describe('Time-aware pressure.', () => {
+  function getLine(interval: number, speed: number, withTime: boolean) {
+    const line: number[][] = []
+
+    for (let t = 0; t <= 1000; t += interval) {
+      line.push(withTime ? [t * speed, 0, 0.5, t] : [t * speed, 0])
+    }
+
+    return line
+  }
+
+  function getMiddleRadius(line: number[][]) {
+    const centerline = getStrokeCenterline(line, { size: 16 })
+    return centerline[Math.floor(centerline.length / 2)].radius
+  }
+
+  it('Adds times and velocities to stroke points.', () => {
+    const strokePoints = getStrokePoints(getLine(10, 0.5, true))
+
+    expect(strokePoints[1].time).toBe(10)
+    expect(strokePoints[1].velocity).toBeGreaterThan(0)
+    expect(getStrokePoints(getLine(10, 0.5, false))[1].velocity).toBe(undefined)
+  })
+
+  it('Does not depend on the rate of input points.', () => {
+    const slow = getMiddleRadius(getLine(16, 0.5, true))
+    const fast = getMiddleRadius(getLine(4, 0.5, true))
+
+    expect(Math.abs(slow - fast)).toBeLessThan(0.05)
+
+    // Without times, the same line is thicker at higher rates
+    expect(
+      getMiddleRadius(getLine(4, 0.5, false)) -
+        getMiddleRadius(getLine(16, 0.5, false))
+    ).toBeGreaterThan(0.5)
+  })
+
+  it('Draws faster lines thinner.', () => {
+    expect(getMiddleRadius(getLine(8, 1.5, true))).toBeLessThan(
+      getMiddleRadius(getLine(8, 0.25, true))
+    )
+  })
+})
+
+describe('Stylus tilt.', () => {
+  function getLine(tiltX?: number, tiltY?: number) {
+    const line: number[][] = []
+
+    for (let x = 0; x <= 100; x += 4) {
+      line.push(
+        tiltX === undefined ? [x, 0, 0.5, x] : [x, 0, 0.5, x, tiltX, tiltY!]
+      )
+    }
+
+    return line
+  }
+
+  function getHeight(stroke: number[][]) {
+    const ys = stroke.map(([, y]) => y)
+    return Math.max(...ys) - Math.min(...ys)
+  }
+
+  it('Adds azimuth and altitude angles to stroke points.', () => {
+    const strokePoints = getStrokePoints([
+      { x: 0, y: 0, tiltX: 0, tiltY: 45 },
+      { x: 10, y: 0, azimuthAngle: 1, altitudeAngle: 0.5 },
+    ])
+
+    expect(strokePoints[0].azimuth).toBeCloseTo(Math.PI / 2)
+    expect(strokePoints[0].altitude).toBeCloseTo(Math.PI / 4)
+    expect(strokePoints[1].azimuth).toBe(1)
+    expect(strokePoints[1].altitude).toBe(0.5)
+    expect(getStrokePoints(getLine())[0].azimuth).toBe(undefined)
+  })
+
+  it('Ignores tilt unless the tilt option is set.', () => {
+    expect(getStroke(getLine(0, 60))).toEqual(getStroke(getLine()))
+    expect(getStroke(getLine(0, 60), { tilt: 0 })).toEqual(getStroke(getLine()))
+  })
+
+  it('Stretches the nib in the direction of the tilt.', () => {
+    const round = getHeight(getStroke(getLine()))
+
+    expect(getHeight(getStroke(getLine(0, 60), { tilt: 1 }))).toBeGreaterThan(
+      round * 1.5
+    )
+    expect(getHeight(getStroke(getLine(0, 60), { tilt: 0.5 }))).toBeLessThan(
+      getHeight(getStroke(getLine(0, 60), { tilt: 1 }))
+    )
+    // A pen held upright draws a round nib.
+    expect(getStroke(getLine(0, 0), { tilt: 1 })).toEqual(getStroke(getLine()))
+  })
+})
+
+describe('Fixed nibs.', () => {
+  function getLine(dx: number, dy: number) {
+    const line: number[][] = []
+
+    for (let i = 0; i <= 25; i++) {
+      line.push([i * 4 * dx, i * 4 * dy])
+    }
+
+    return line
+  }
+
+  function getExtent(stroke: number[][], axis: number) {
+    const values = stroke.map(point => point[axis])
+    return Math.max(...values) - Math.min(...values)
+  }
+
+  const options = { size: 16, thinning: 0, nib: { angle: 0, aspect: 4 } }
+
+  it('Draws thin lines along the nib and thick lines across it.', () => {
+    expect(getExtent(getStroke(getLine(1, 0), options), 1)).toBeCloseTo(4)
+    expect(getExtent(getStroke(getLine(0, 1), options), 0)).toBeCloseTo(16)
+  })
+
+  it('Draws a round nib when the aspect is 1.', () => {
+    expect(
+      getStroke(getLine(1, 1), { ...options, nib: { aspect: 1 } })
+    ).toEqual(getStroke(getLine(1, 1), { size: 16, thinning: 0 }))
+  })
+})
+
+describe('Cap styles.', () => {
+  const line: number[][] = []
+
+  for (let x = 0; x <= 100; x += 4) {
+    line.push([x, 0])
+  }
+
+  function getBounds(stroke: number[][]) {
+    const xs = stroke.map(([x]) => x)
+    const ys = stroke.map(([, y]) => y)
+    return [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)]
+  }
+
+  const lastX = getStrokePoints(line).pop()!.point[0]
+
+  it('Draws round caps by default.', () => {
+    expect(
+      getStroke(line, { start: { cap: 'round' }, end: { cap: 'round' } })
+    ).toEqual(getStroke(line))
+  })
+
+  it('Draws butt caps at the ends of the line.', () => {
+    const [minX, maxX] = getBounds(
+      getStroke(line, {
+        thinning: 0,
+        start: { cap: 'butt' },
+        end: { cap: 'butt' },
+      })
+    )
+
+    expect(minX).toBeCloseTo(0)
+    expect(maxX).toBeCloseTo(lastX)
+  })
+
+  it('Draws square caps past the ends of the line.', () => {
+    const [minX, maxX, minY, maxY] = getBounds(
+      getStroke(line, {
+        thinning: 0,
+        start: { cap: 'square' },
+        end: { cap: 'square' },
+      })
+    )
+
+    expect(minX).toBeCloseTo(-4)
+    expect(maxX).toBeCloseTo(lastX + 4)
+    expect(maxY - minY).toBeCloseTo(8)
+  })
+
+  it('Draws arrowheads sized to the line.', () => {
+    const [minX, maxX, minY, maxY] = getBounds(
+      getStroke(line, { thinning: 0, end: { cap: 'arrow' } })
+    )
+
+    expect(minX).toBeLessThan(0)
+    expect(maxX).toBeCloseTo(lastX + 20)
+    expect(maxY - minY).toBeCloseTo(24)
+  })
+
+  it('Draws no caps on tapered ends.', () => {
+    expect(getStroke(line, { end: { taper: 20, cap: 'arrow' } })).toEqual(
+      getStroke(line, { end: { taper: 20 } })
+    )
+  })
+})
+
+describe('Join styles.', () => {
+  // A line that turns sharply back on itself at [100, 0]
+  const line: number[][] = []
+
+  for (let x = 0; x <= 100; x += 5) {
+    line.push([x, 0])
+  }
+
+  for (let i = 1; i <= 20; i++) {
+    line.push([100 - i * 5, i * 2.5])
+  }
+
+  const options = { size: 10, thinning: 0, streamline: 0 }
+
+  function getMaxX(stroke: number[][]) {
+    return Math.max(...stroke.map(([x]) => x))
+  }
+
+  it('Draws round joins by default.', () => {
+    expect(getStroke(line, { ...options, join: 'round' })).toEqual(
+      getStroke(line, options)
+    )
+    expect(getStroke(line, { ...options, joinSegments: 5 })).toEqual(
+      getStroke(line, options)
+    )
+  })
+
+  it('Draws round joins with more segments.', () => {
+    expect(
+      getStroke(line, { ...options, joinSegments: 10 }).length
+    ).toBeGreaterThan(getStroke(line, options).length + 5)
+  })
+
+  it('Draws miter joins to a point.', () => {
+    // The tip is on the bisector of the corner's angle
+    const tipDistance = 5 / Math.tan(Math.atan(0.5) / 2)
+
+    expect(
+      getMaxX(getStroke(line, { ...options, join: 'miter', miterLimit: 5 }))
+    ).toBeCloseTo(100 + tipDistance)
+  })
+
+  it('Draws bevel joins for miters past the miter limit.', () => {
+    const bevel = getStroke(line, { ...options, join: 'bevel' })
+
+    expect(getStroke(line, { ...options, join: 'miter' })).toEqual(bevel)
+    expect(getMaxX(bevel)).toBeLessThan(getMaxX(getStroke(line, options)))
+  })
+})
+
+describe('Resampling.', () => {
+  // A quick flick, with few and uneven points
+  const line = [
+    [0, 0, 0.3],
+    [40, 10, 0.5],
+    [60, 40, 0.7],
+    [62, 90, 0.5],
+  ]
+
+  function getGaps(strokePoints: { point: number[] }[]) {
+    return strokePoints.slice(1).map(({ point }, i) => {
+      const [x, y] = strokePoints[i].point
+      return Math.hypot(point[0] - x, point[1] - y)
+    })
+  }
+
+  it('Resamples points at a spacing relative to the size.', () => {
+    const options = { size: 8, streamline: 0, resample: { spacing: 0.25 } }
+    const gaps = getGaps(getStrokePoints(line, options))
+
+    expect(gaps.length).toBeGreaterThan(50)
+    expect(Math.min(...gaps)).toBeGreaterThan(1.9)
+    expect(Math.max(...gaps.slice(0, -1))).toBeLessThanOrEqual(2 + 1e-9)
+  })
+
+  it('Passes through the input points.', () => {
+    const strokePoints = getStrokePoints(line, {
+      streamline: 0,
+      resample: {},
+    })
+
+    for (const [x, y] of line) {
+      expect(
+        Math.min(
+          ...strokePoints.map(({ point }) =>
+            Math.hypot(point[0] - x, point[1] - y)
+          )
+        )
+      ).toBeLessThan(1.5)
+    }
+
+    expect(strokePoints[strokePoints.length - 1].point).toEqual([62, 90])
+  })
+
+  it('Interpolates pressure.', () => {
+    const pressures = getStrokePoints(line, {
+      streamline: 0,
+      resample: {},
+    }).map(({ pressure }) => pressure)
+
+    expect(Math.min(...pressures)).toBeCloseTo(0.3)
+    expect(Math.max(...pressures)).toBeCloseTo(0.7)
+    expect(pressures[1]).toBeGreaterThan(0.3)
+    expect(pressures[1]).toBeLessThan(0.35)
+  })
+
+  it('Draws uniform and centripetal splines.', () => {
+    expect(
+      getStroke(line, { resample: { spline: 'catmull-rom' } })
+    ).not.toEqual(getStroke(line, { resample: { spline: 'centripetal' } }))
+  })
+})
+
+describe('Simplifying outlines.', () => {
+  const line: number[][] = []
+
+  for (let i = 0; i < 200; i++) {
+    line.push([
+      i * 4 + Math.sin(i / 8) * 30,
+      Math.cos(i / 12) * 60,
+      0.5 + Math.sin(i / 10) * 0.4,
+    ])
+  }
+
+  // The distance from a point to the nearest edge of a polygon
+  function getDistanceToEdges(point: number[], polygon: number[][]) {
+    let min = Infinity
+
+    for (let i = 0; i < polygon.length; i++) {
+      const [ax, ay] = polygon[i]
+      const [bx, by] = polygon[(i + 1) % polygon.length]
+      const [px, py] = point
+      const l2 = (bx - ax) ** 2 + (by - ay) ** 2
+      const t = l2
+        ? Math.max(
+            0,
+            Math.min(1, ((px - ax) * (bx - ax) + (py - ay) * (by - ay)) / l2)
+          )
+        : 0
+
+      min = Math.min(
+        min,
+        Math.hypot(px - ax - t * (bx - ax), py - ay - t * (by - ay))
+      )
+    }
+
+    return min
+  }
+
+  it('Removes points within the tolerance.', () => {
+    const outline = getStroke(line)
+    const simplified = getStroke(line, { simplify: 0.5 })
+
+    expect(simplified.length).toBeLessThan(outline.length * 0.75)
+
+    for (const point of outline) {
+      expect(getDistanceToEdges(point, simplified)).toBeLessThan(0.5 + 1e-9)
+    }
+  })
+
+  it('Keeps caps and corners.', () => {
+    const corner: number[][] = []
+
+    for (let x = 0; x <= 100; x += 5) {
+      corner.push([x, Math.sin(x / 10)])
+    }
+
+    for (let i = 1; i <= 20; i++) {
+      corner.push([100 - i * 5, i * 2.5])
+    }
+
+    const outline = getStroke(corner, { simplify: 0 })
+    const simplified = getStroke(corner, { simplify: 10 })
+
+    // The start cap's points, which end the outline
+    for (const point of outline.slice(-6)) {
+      expect(simplified).toContainEqual(point)
+    }
+
+    // The corner's points, which reach furthest to the right
+    const maxX = Math.max(...outline.map(([x]) => x))
+
+    for (const point of outline.filter(([x]) => x > maxX - 2)) {
+      expect(simplified).toContainEqual(point)
+    }
+
+    expect(simplified.length).toBeLessThan(outline.length)
+  })
+
+  it('Simplifies finished outlines.', () => {
+    const outline = getStroke(line)
+    const simplified = simplifyOutline(outline, 0.5)
+
+    expect(simplified.length).toBeLessThan(outline.length / 2)
+
+    for (const point of outline) {
+      expect(getDistanceToEdges(point, simplified)).toBeLessThan(0.5 + 1e-9)
+    }
+  })
+})
+
+describe('Dashed strokes.', () => {
+  const line: number[][] = []
+
+  for (let x = 0; x <= 200; x += 2) {
+    line.push([x, 0, 0.25 + x / 400])
+  }
+
+  const getRange = (outline: number[][]) => [
+    Math.min(...outline.map(([x]) => x)),
+    Math.max(...outline.map(([x]) => x)),
+  ]
+
+  it('Splits a stroke into dashes.', () => {
+    const dashes = getDashedStroke(line, { dash: [30, 20] })
+
+    expect(dashes).toHaveLength(4)
+
+    dashes.forEach((dash, i) => {
+      const [min, max] = getRange(dash)
+
+      // Round caps reach past each end of the dash.
+      expect(min).toBeLessThan(i * 50)
+      expect(min).toBeGreaterThan(i * 50 - 8)
+      expect(max).toBeGreaterThan(i * 50 + 30)
+      expect(max).toBeLessThan(i * 50 + 38)
+    })
+  })
+
+  it('Offsets the dash pattern.', () => {
+    const dashes = getDashedStroke(line, { dash: [30, 20], dashOffset: 10 })
+
+    expect(dashes).toHaveLength(5)
+    expect(getRange(dashes[0])[1]).toBeLessThan(30)
+    expect(getRange(dashes[1])[0]).toBeGreaterThan(30)
+  })
+
+  it('Gives each dash its own caps.', () => {
+    const dashes = getDashedStroke(line, {
+      dash: [30, 20],
+      start: { cap: 'butt' },
+      end: { cap: 'butt' },
+    })
+
+    dashes.forEach((dash, i) => {
+      expect(getRange(dash)[0]).toBeCloseTo(i * 50)
+      expect(getRange(dash)[1]).toBeCloseTo(i * 50 + 30)
+    })
+  })
+
+  it('Keeps the pressure continuous along the stroke.', () => {
+    const outline = getStroke(line)
+    const dash = getDashedStroke(line, { dash: [30, 20] })[1]
+
+    const sides = dash.filter(([x]) => x > 55 && x < 75)
+
+    expect(sides.length).toBeGreaterThan(0)
+
+    for (const point of sides) {
+      expect(outline).toContainEqual(point)
+    }
+  })
+
+  it('Draws a pattern that is too fine to see as one dash.', () => {
+    for (const dash of [
+      [1e-9, 1e-9],
+      [1e-20, 0],
+    ]) {
+      expect(getDashedStroke(line, { dash })).toHaveLength(1)
+    }
+
+    // A pattern is too fine when it is short for the stroke's size.
+    expect(getDashedStroke(line, { dash: [0.02, 0.02] })).toHaveLength(1)
+    expect(
+      getDashedStroke(line, { dash: [0.02, 0.02], size: 2 }).length
+    ).toBeGreaterThan(1)
+
+    // A pattern scaled for a far zoom, on a stroke that was not scaled
+    const zoom = [1e-12, 0, 0, 1e-12, 0, 0]
+    const { dash } = transformStrokeOptions({ dash: [30, 20] }, zoom)
+
+    expect(getDashedStroke(line, { dash })).toHaveLength(1)
+  })
+
+  it('Draws a pattern on a line that is very long for its size.', () => {
+    const long = [
+      [0, 0],
+      [99999, 0],
+    ]
+
+    expect(getDashedStroke(long, { dash: [4, 4], streamline: 0 })).toHaveLength(
+      12500
+    )
+  })
+
+  it('Returns the whole stroke without a dash pattern.', () => {
+    expect(getDashedStroke(line)).toEqual([getStroke(line)])
+    expect(getDashedStroke(line, { dash: [] })).toEqual([getStroke(line)])
+  })
+})
+
+describe('Level of detail.', () => {
+  const line: number[][] = []
+
+  for (let i = 0; i <= 40; i++) {
+    line.push([i * 5, Math.sin(i / 4) * 30, 0.5])
+  }
+
+  const options = { size: 16, thinning: 0, streamline: 0 }
+
+  // The greatest distance from a dot's outline to its circle, in pixels
+  function getDotError(scale: number, tolerance?: number) {
+    const dot = getStroke([[0, 0]], { ...options, scale, tolerance })
+    const r = Math.hypot(dot[0][0], dot[0][1])
+
+    let max = 0
+
+    for (let i = 1; i < dot.length; i++) {
+      const [x0, y0] = dot[i - 1]
+      const [x1, y1] = dot[i]
+      const c = Math.hypot(x1 - x0, y1 - y0) / 2
+      max = Math.max(max, (r - Math.sqrt(r * r - c * c)) * scale)
+    }
+
+    return max
+  }
+
+  it('Keeps the fixed detail without a scale.', () => {
+    expect(getStroke(line, { ...options, tolerance: 2 })).toEqual(
+      getStroke(line, options)
+    )
+  })
+
+  it('Adds points when zoomed in and removes them when zoomed out.', () => {
+    const lengths = [0.25, 1, 4, 16].map(
+      scale => getStroke(line, { ...options, scale }).length
+    )
+
+    for (let i = 1; i < lengths.length; i++) {
+      expect(lengths[i]).toBeGreaterThan(lengths[i - 1])
+    }
+
+    expect(lengths[0]).toBeLessThan(getStroke(line, options).length)
+  })
+
+  it('Keeps round caps within the tolerance.', () => {
+    for (const scale of [0.5, 2, 10]) {
+      expect(getDotError(scale)).toBeLessThanOrEqual(0.25 + 1e-9)
+      expect(getDotError(scale, 1)).toBeLessThanOrEqual(1 + 1e-9)
+    }
+
+    expect(getDotError(10, 0.1)).toBeLessThan(getDotError(10, 1))
+  })
+
+  it('Completes each cap.', () => {
+    for (const scale of [0.3, 1.7, 7]) {
+      const dot = getStroke([[0, 0]], { ...options, scale })
+
+      expect(dot[dot.length - 1][0]).toBeCloseTo(dot[0][0])
+      expect(dot[dot.length - 1][1]).toBeCloseTo(dot[0][1])
+    }
+  })
+})
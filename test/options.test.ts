@@ -0,0 +1,141 @@
+import getStroke, {
+  easings,
+  normalizeStrokeOptions,
+  StrokeOptions,
+  StrokeOptionsError,
+} from '../src'
+
+const inputPoints = [
+  [0, 0, 0.2, 0],
+  [10, 2, 0.4, 10],
+  [20, 6, 0.6, 20],
+  [30, 12, 0.8, 30],
+  [40, 20, 1, 40],
+]
+
+const hasNaN = (outline: number[][]) =>
+  outline.some(([x, y]) => isNaN(x) || isNaN(y))
+
+describe('Normalizing options.', () => {
+  it('Sets every missing option to its default.', () => {
+    expect(normalizeStrokeOptions()).toMatchObject({
+      size: 8,
+      thinning: 0.5,
+      smoothing: 0.5,
+      streamline: 0.5,
+      easing: easings.linear,
+      simulatePressure: true,
+      tilt: 0,
+      nib: undefined,
+      speed: { min: 0, max: 2 },
+      start: { taper: 0, easing: easings.easeOutQuad, cap: 'round' },
+      end: { taper: 0, easing: easings.easeOutCubic, cap: 'round' },
+      resample: undefined,
+      simplify: 0,
+      dash: [],
+      dashOffset: 0,
+      join: 'round',
+      miterLimit: 4,
+      joinSegments: 5,
+      scale: undefined,
+      tolerance: 0.25,
+      last: false,
+      closed: false,
+      strict: false,
+    })
+  })
+
+  it('Keeps valid options.', () => {
+    const options: StrokeOptions = {
+      size: 16,
+      thinning: -0.5,
+      easing: 'easeInQuad',
+      nib: { aspect: 2 },
+      start: { taper: 20, cap: 'butt' },
+      resample: { spline: 'catmull-rom' },
+    }
+
+    expect(normalizeStrokeOptions(options)).toMatchObject({
+      size: 16,
+      thinning: -0.5,
+      easing: easings.easeInQuad,
+      nib: { angle: Math.PI / 4, aspect: 2 },
+      start: { taper: 20, cap: 'butt' },
+      resample: { spline: 'catmull-rom', spacing: 0.25 },
+    })
+
+    expect(normalizeStrokeOptions(normalizeStrokeOptions(options))).toEqual(
+      normalizeStrokeOptions(options)
+    )
+  })
+
+  it('Fixes invalid options.', () => {
+    const options = ({
+      size: -4,
+      thinning: 2,
+      streamline: 1.5,
+      easing: 5,
+      start: { taper: NaN, cap: 'pointy' },
+      join: 'sharp',
+    } as unknown) as StrokeOptions
+
+    expect(normalizeStrokeOptions(options)).toMatchObject({
+      size: 8,
+      thinning: 1,
+      streamline: 1,
+      easing: easings.linear,
+      start: { taper: 0, cap: 'round' },
+      join: 'round',
+    })
+
+    expect(hasNaN(getStroke(inputPoints, options))).toBe(false)
+  })
+
+  it('Handles equal speeds.', () => {
+    const outline = getStroke(inputPoints, { speed: { min: 1, max: 1 } })
+
+    expect(outline.length).toBeGreaterThan(0)
+    expect(hasNaN(outline)).toBe(false)
+  })
+})
+
+describe('Strict mode.', () => {
+  const getError = (options: unknown) => {
+    try {
+      normalizeStrokeOptions({ ...(options as StrokeOptions), strict: true })
+    } catch (e) {
+      return e as StrokeOptionsError
+    }
+
+    return undefined
+  }
+
+  it('Throws errors that name the invalid option.', () => {
+    for (const [options, field] of [
+      [{ size: -4 }, 'size'],
+      [{ thinning: 2 }, 'thinning'],
+      [{ streamline: 1.5 }, 'streamline'],
+      [{ easing: 5 }, 'easing'],
+      [{ easing: 'easeSideways' }, 'easing'],
+      [{ end: { taper: 'long' } }, 'end.taper'],
+      [{ speed: { min: 1, max: 1 } }, 'speed.max'],
+      [{ dash: [4, -2] }, 'dash'],
+    ]) {
+      const error = getError(options)
+
+      expect(error).toBeInstanceOf(StrokeOptionsError)
+      expect(error!.field).toBe(field)
+      expect(error!.message).toContain(`"${field}"`)
+    }
+  })
+
+  it('Throws from getStroke.', () => {
+    expect(() => getStroke(inputPoints, { size: -4, strict: true })).toThrow(
+      StrokeOptionsError
+    )
+  })
+
+  it('Accepts valid options.', () => {
+    expect(getError({ size: 16, easing: [0.4, 0, 0.6, 1] })).toBeUndefined()
+  })
+})
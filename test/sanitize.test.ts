@@ -0,0 +1,153 @@
+import getStroke, {
+  getStrokePoints,
+  sanitizePoints,
+  StrokeBuilder,
+} from '../src'
+
+const hasNaN = (outline: number[][]) =>
+  outline.some(([x, y]) => isNaN(x) || isNaN(y))
+
+describe('Invalid points.', () => {
+  it('Drops points without a finite position.', () => {
+    const { points, report } = sanitizePoints([
+      [0, 0, 0.5],
+      [NaN, 5, 0.5],
+      [10, Infinity, 0.5],
+      [10, 0, 0.5],
+    ])
+
+    expect(points).toEqual([
+      [0, 0, 0.5],
+      [10, 0, 0.5],
+    ])
+
+    expect(report).toEqual({ dropped: [1, 2], repaired: [], clamped: [] })
+  })
+
+  it('Repairs and clamps pressures.', () => {
+    const { points, report } = sanitizePoints([
+      { x: 0, y: 0, pressure: 0.3 },
+      { x: 5, y: 0, pressure: NaN },
+      { x: 10, y: 0, pressure: (null as unknown) as number },
+      { x: 15, y: 0, pressure: 1.5 },
+      { x: 20, y: 0, pressure: -1 },
+      { x: 25, y: 0 },
+    ])
+
+    expect(points.map(pt => pt[2])).toEqual([0.3, 0.3, 0.3, 1, 0, 0.5])
+
+    expect(report).toEqual({ dropped: [], repaired: [1, 2], clamped: [3, 4] })
+  })
+
+  it('Removes invalid times and tilts.', () => {
+    const { points, report } = sanitizePoints([
+      [0, 0, 0.5, 0, 10, 10],
+      [5, 0, 0.5, NaN],
+      [10, 0, 0.5, 20, NaN, 10],
+    ])
+
+    expect(points[1]).toEqual([5, 0, 0.5])
+    expect(points[2]).toEqual([10, 0, 0.5, 20])
+
+    expect(report).toEqual({ dropped: [], repaired: [1, 2], clamped: [] })
+  })
+
+  it('Returns tilted points as they were given.', () => {
+    const tilted = [
+      [0, 0, 0.5, 0, 30, -20],
+      [10, 5, 0.6, 16, 45, 10],
+      [20, 10, 0.7, 32, 0, 0],
+    ]
+
+    const { points } = sanitizePoints(tilted)
+
+    points.forEach((pt, i) => {
+      expect(pt.length).toBe(6)
+      pt.forEach((value, j) => expect(value).toBeCloseTo(tilted[i][j]))
+    })
+
+    expect(getStroke(points)).toEqual(getStroke(tilted))
+  })
+
+  it('Draws strokes with a NaN pressure on pen-up.', () => {
+    const points = [
+      [0, 0, 0.4],
+      [10, 5, 0.6],
+      [20, 10, 0.8],
+      [30, 10, 0.8],
+    ]
+
+    const outline = getStroke([...points, [40, 5, NaN]], {
+      simulatePressure: false,
+    })
+
+    expect(hasNaN(outline)).toBe(false)
+
+    expect(outline).toEqual(
+      getStroke([...points, [40, 5, 0.8]], { simulatePressure: false })
+    )
+  })
+
+  it('Builds strokes with invalid points.', () => {
+    const points = [
+      [0, 0, 0.4],
+      [NaN, 0, 0.5],
+      [10, 5, NaN],
+      [20, 10, 2],
+      [30, 10, 0.8, NaN],
+      [40, 5, 0.6],
+      [50, 0, 0.5],
+    ]
+
+    const builder = new StrokeBuilder({ simulatePressure: false })
+
+    for (let i = 0; i < points.length; i++) {
+      builder.addPoint(points[i])
+
+      expect(builder.getOutline()).toEqual(
+        getStroke(points.slice(0, i + 1), { simulatePressure: false })
+      )
+    }
+  })
+})
+
+describe('Degenerate strokes.', () => {
+  it('Draws a dot for a single point.', () => {
+    const outline = getStroke([[5, 5]])
+
+    expect(outline.length).toBeGreaterThan(2)
+    expect(hasNaN(outline)).toBe(false)
+
+    const [[x0, y0]] = outline
+
+    for (const [x, y] of outline) {
+      expect(Math.hypot(x - 5, y - 5)).toBeCloseTo(Math.hypot(x0 - 5, y0 - 5))
+    }
+  })
+
+  it('Draws the same dot for identical points.', () => {
+    expect(
+      getStroke([
+        [5, 5],
+        [5, 5],
+        [5, 5],
+      ])
+    ).toEqual(getStroke([[5, 5]]))
+  })
+
+  it('Draws points that collapse under streamlining.', () => {
+    const points = [
+      [0, 0],
+      [Number.MIN_VALUE, 0],
+      [Number.MIN_VALUE, Number.MIN_VALUE],
+    ]
+
+    expect(getStrokePoints(points, { streamline: 1 })).toHaveLength(1)
+
+    expect(getStroke(points, { streamline: 1 })).toEqual(getStroke([[0, 0]]))
+  })
+
+  it('Returns an empty outline when every point is invalid.', () => {
+    expect(getStroke([[NaN, NaN]])).toEqual([])
+  })
+})
@@ -0,0 +1,60 @@
+import { getStrokePoints, getStrokeCenterline, getStrokeStamps } from '../src'
+
+const line: number[][] = []
+
+for (let i = 0; i <= 50; i++) {
+  line.push([i * 2, i, 0.25 + i / 100])
+}
+
+const options = { size: 16, simulatePressure: false }
+
+describe('Stroke stamps.', () => {
+  it('Spaces stamps by a fraction of their diameter.', () => {
+    const stamps = getStrokeStamps(getStrokePoints(line, options), 0.5, options)
+
+    expect(stamps.length).toBeGreaterThan(10)
+
+    for (let i = 1; i < stamps.length; i++) {
+      const [x0, y0] = stamps[i - 1].point
+      const [x1, y1] = stamps[i].point
+
+      expect(Math.hypot(x1 - x0, y1 - y0)).toBeCloseTo(stamps[i - 1].radius, 5)
+    }
+  })
+
+  it('Rotates stamps in the direction of the line.', () => {
+    const stamps = getStrokeStamps(getStrokePoints(line, options), 0.5, options)
+
+    for (const { rotation } of stamps) {
+      expect(rotation).toBeCloseTo(Math.atan2(1, 2))
+    }
+  })
+
+  it('Normalizes the length along the line.', () => {
+    const stamps = getStrokeStamps(getStrokePoints(line, options), 0.5, options)
+
+    expect(stamps[0].length).toBe(0)
+    expect(stamps[stamps.length - 1].length).toBeLessThanOrEqual(1)
+
+    for (let i = 1; i < stamps.length; i++) {
+      expect(stamps[i].length).toBeGreaterThan(stamps[i - 1].length)
+    }
+  })
+
+  it('Matches the radius and pressure of the centerline.', () => {
+    const strokePoints = getStrokePoints(line, options)
+    const centerline = getStrokeCenterline(line, options)
+    const [stamp] = getStrokeStamps(strokePoints, 0.5, options)
+
+    expect(stamp.point).toEqual(centerline[0].point)
+    expect(stamp.radius).toBe(centerline[0].radius)
+    expect(stamp.pressure).toBe(centerline[0].pressure)
+  })
+
+  it('Tapers the stamps.', () => {
+    const tapered = { ...options, end: { taper: 40 } }
+    const stamps = getStrokeStamps(getStrokePoints(line, tapered), 0.5, tapered)
+
+    expect(stamps[stamps.length - 1].radius).toBeLessThan(stamps[0].radius / 4)
+  })
+})
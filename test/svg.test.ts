@@ -0,0 +1,148 @@
+import getStroke, {
+  getStrokePoints,
+  getSvgPathFromStroke,
+  getSvgPathFromStrokePoints,
+} from '../src'
+
+const inputPoints = [
+  [0, 0],
+  [10, 0],
+  [20, 0],
+  [25, 5],
+  [30, 5],
+]
+
+// Turn the numbers in path data into absolute coordinates, following the
+// current point through relative commands and closed subpaths.
+function toAbsolute(d: string) {
+  const coords: number[] = []
+  let curr = [0, 0]
+  let start = [0, 0]
+  let command = ''
+  let count = 0
+
+  for (const token of d.split(' ')) {
+    if (isNaN(+token)) {
+      command = token
+      count = 0
+
+      if (command.toLowerCase() === 'z') curr = start
+
+      continue
+    }
+
+    const isRelative = command === command.toLowerCase()
+    const i = coords.length % 2
+    const n = isRelative ? +token + curr[i] : +token
+
+    coords.push(n)
+
+    if (i === 1) {
+      const point = [coords[coords.length - 2], n]
+      count++
+
+      // Quadratic segments move the current point on their second point.
+      if (command.toLowerCase() === 'm') {
+        curr = start = point
+      } else if (count % 2 === 0) {
+        curr = point
+      }
+    }
+  }
+
+  return coords
+}
+
+describe('SVG paths.', () => {
+  it('Returns an empty path for fewer than three points.', () => {
+    expect(getSvgPathFromStroke([])).toBe('')
+    expect(getSvgPathFromStroke([[0, 0]])).toBe('')
+    expect(
+      getSvgPathFromStroke([
+        [0, 0],
+        [10, 0],
+      ])
+    ).toBe('')
+  })
+
+  it('Draws a closed quadratic path through midpoints.', () => {
+    const square = [
+      [0, 0],
+      [10, 0],
+      [10, 10],
+      [0, 10],
+    ]
+
+    expect(getSvgPathFromStroke(square)).toBe(
+      'M 5 0 Q 10 0 10 5 10 10 5 10 0 10 0 5 0 0 5 0 Z'
+    )
+
+    expect(getSvgPathFromStroke(square, { relative: true })).toBe(
+      'm 5 0 q 5 0 5 5 0 5 -5 5 -5 0 -5 -5 0 -5 5 -5 z'
+    )
+  })
+
+  it('Rounds to the given precision.', () => {
+    const d = getSvgPathFromStroke(getStroke(inputPoints), { precision: 2 })
+    const numbers = d.split(' ').filter(s => !isNaN(+s))
+    expect(numbers.every(n => (n.split('.')[1] || '').length <= 2)).toBe(true)
+  })
+
+  it('Clamps a precision outside of 0 to 20.', () => {
+    const stroke = getStroke(inputPoints)
+
+    expect(getSvgPathFromStroke(stroke, { precision: -2 })).toBe(
+      getSvgPathFromStroke(stroke, { precision: 0 })
+    )
+    expect(getSvgPathFromStroke(stroke, { precision: 200 })).toBe(
+      getSvgPathFromStroke(stroke, { precision: 20 })
+    )
+  })
+
+  it('Ignores the repeated last point of a dot.', () => {
+    const dot = getStroke(
+      [
+        [10, 10],
+        [11, 10],
+      ],
+      { last: true }
+    )
+
+    const d = getSvgPathFromStroke(dot, { curve: 'cubic', precision: 3 })
+    expect(d.match(/C/g)).toHaveLength(1)
+    expect(d.split(' ').length).toBe(3 + 1 + (dot.length - 1) * 6 + 1)
+  })
+
+  it('Draws open paths along the stroke points.', () => {
+    const strokePoints = getStrokePoints(inputPoints)
+
+    expect(getSvgPathFromStrokePoints(strokePoints)).toMatch(/^M 0 0 Q .*[^Z]$/)
+    expect(getSvgPathFromStrokePoints([[10, 10]])).toBe('M 10 10 L 10 10')
+  })
+
+  it('Measures relative commands in flattened paths from each ring.', () => {
+    const loop: number[][] = []
+
+    for (let i = 0; i <= 60; i++) {
+      const t = (i / 50) * Math.PI * 2
+      loop.push([150 + Math.cos(t) * 100, 100 + Math.sin(t) * 100])
+    }
+
+    const stroke = getStroke(loop, { size: 20 })
+    const options = { flatten: true, precision: 2 }
+
+    const absolute = getSvgPathFromStroke(stroke, options)
+    const relative = getSvgPathFromStroke(stroke, {
+      ...options,
+      relative: true,
+    })
+
+    expect(absolute.match(/M/g)!.length).toBeGreaterThan(1)
+
+    const expected = toAbsolute(absolute)
+    const actual = toAbsolute(relative)
+
+    expect(actual).toHaveLength(expected.length)
+    actual.forEach((n, i) => expect(n).toBeCloseTo(expected[i], 6))
+  })
+})
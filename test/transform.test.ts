@@ -0,0 +1,119 @@
+import getStroke, {
+  transformStrokePoints,
+  transformStrokeOptions,
+  StrokeOptions,
+} from '../src'
+
+const line: number[][] = []
+
+for (let i = 0; i <= 40; i++) {
+  line.push([i * 4, Math.sin(i / 5) * 30, 0.3 + (i % 8) / 20, i * 16])
+}
+
+// Rotate by 30 degrees, scale by 3 and move.
+const r = Math.PI / 6
+const k = 3
+
+const matrix = [
+  k * Math.cos(r),
+  k * Math.sin(r),
+  -k * Math.sin(r),
+  k * Math.cos(r),
+  40,
+  -20,
+]
+
+// Turn by 90 degrees.
+const quarterTurn = [0, 1, -1, 0, 0, 0]
+
+function apply([x, y]: number[]) {
+  return [
+    matrix[0] * x + matrix[2] * y + matrix[4],
+    matrix[1] * x + matrix[3] * y + matrix[5],
+  ]
+}
+
+describe('Transforming strokes.', () => {
+  it('Draws the same stroke at its new scale.', () => {
+    const sets: StrokeOptions[] = [
+      {},
+      { size: 16, thinning: 0.8, smoothing: 0.2 },
+      { start: { taper: 30 }, end: { taper: 50 } },
+      { speed: { min: 0.1, max: 1 } },
+      { nib: { angle: 0.3, aspect: 3 } },
+    ]
+
+    for (const options of sets) {
+      const expected = getStroke(line, options).map(apply)
+
+      const stroke = getStroke(
+        transformStrokePoints(line, matrix),
+        transformStrokeOptions(options, matrix)
+      )
+
+      expect(stroke.length).toBe(expected.length)
+
+      stroke.forEach(([x, y], i) => {
+        expect(x).toBeCloseTo(expected[i][0], 6)
+        expect(y).toBeCloseTo(expected[i][1], 6)
+      })
+    }
+  })
+
+  it('Keeps pressure and time.', () => {
+    const points = transformStrokePoints(
+      [[0, 0, 0.2, 10], { x: 10, y: 0, pressure: 0.7 }],
+      [1, 0, 0, 1, 5, 5]
+    )
+
+    expect(points).toEqual([
+      [5, 5, 0.2, 10],
+      [15, 5, 0.7],
+    ])
+  })
+
+  it('Turns the tilt with the matrix.', () => {
+    const [point] = transformStrokePoints([[0, 0, 0.5, 0, 30, 0]], quarterTurn)
+
+    expect(point[4]).toBeCloseTo(0)
+    expect(point[5]).toBeCloseTo(30)
+  })
+
+  it('Scales options measured in the stroke units.', () => {
+    const options = transformStrokeOptions(
+      {
+        size: 10,
+        thinning: 0.6,
+        start: { taper: 20, easing: 'easeInQuad' },
+        dash: [4, 2],
+        dashOffset: 1,
+        simplify: 0.5,
+        resample: { spacing: 0.5 },
+      },
+      { a: 2, b: 0, c: 0, d: 2, e: 100, f: 100 }
+    )
+
+    expect(options).toEqual({
+      size: 20,
+      thinning: 0.6,
+      speed: { min: 0, max: 4 },
+      start: { taper: 40, easing: 'easeInQuad' },
+      dash: [8, 4],
+      dashOffset: 2,
+      simplify: 1,
+      resample: { spacing: 0.5 },
+    })
+  })
+
+  it('Scales by area for a stretched matrix.', () => {
+    expect(transformStrokeOptions({}, [4, 0, 0, 1, 0, 0]).size).toBeCloseTo(16)
+    expect(transformStrokeOptions({}, [1, 0, 0, -1, 0, 0]).size).toBe(8)
+  })
+
+  it('Turns a fixed nib with the matrix.', () => {
+    const { nib } = transformStrokeOptions({ nib: { aspect: 2 } }, quarterTurn)
+
+    expect(nib!.angle).toBeCloseTo((Math.PI * 3) / 4)
+    expect(nib!.aspect).toBe(2)
+  })
+})
@@ -0,0 +1,14 @@
+// Build the worker entry (src/worker.ts) into its own files, such as
+// dist/worker.esm.js, rather than over the library's files.
+module.exports = {
+  rollup(config, options) {
+    if (/worker\.ts$/.test(options.input)) {
+      config.output.file = config.output.file.replace(
+        /perfect-freehand(?=\.[^/]*$)/,
+        'worker'
+      )
+    }
+
+    return config
+  },
+}